@@ -6,36 +6,45 @@ import dts from "rollup-plugin-dts";
 
 const packageJson = require("./package.json");
 
+// 진입점별 번들 설정 - index(React 포함)와 vanilla(React 미포함)
+const bundle = (input, cjsFile, esmFile) => ({
+  input,
+  output: [
+    {
+      file: cjsFile,
+      format: "cjs",
+      sourcemap: true,
+    },
+    {
+      file: esmFile,
+      format: "esm",
+      sourcemap: true,
+    },
+  ],
+  plugins: [
+    resolve(),
+    commonjs(),
+    typescript({
+      tsconfig: "./tsconfig.json",
+      declaration: false,
+      rootDir: "./src",
+    }),
+    terser(),
+  ],
+  external: [...Object.keys(packageJson.peerDependencies || {})],
+});
+
 export default [
-  {
-    input: "src/index.ts",
-    output: [
-      {
-        file: packageJson.main,
-        format: "cjs",
-        sourcemap: true,
-      },
-      {
-        file: packageJson.module,
-        format: "esm",
-        sourcemap: true,
-      },
-    ],
-    plugins: [
-      resolve(),
-      commonjs(),
-      typescript({
-        tsconfig: "./tsconfig.json",
-        declaration: false,
-        rootDir: "./src",
-      }),
-      terser(),
-    ],
-    external: [...Object.keys(packageJson.peerDependencies || {})],
-  },
+  bundle("src/index.ts", packageJson.main, packageJson.module),
+  bundle("src/vanilla.ts", "dist/vanilla.js", "dist/vanilla.esm.js"),
   {
     input: "dist/types/index.d.ts",
     output: [{ file: "dist/index.d.ts", format: "esm" }],
     plugins: [dts()],
   },
+  {
+    input: "dist/types/vanilla.d.ts",
+    output: [{ file: "dist/vanilla.d.ts", format: "esm" }],
+    plugins: [dts()],
+  },
 ];
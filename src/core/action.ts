@@ -0,0 +1,23 @@
+import { SetStateOptions, StoreAction } from "../types";
+
+// 이름 없이 호출된 set의 액션 타입
+export const ANONYMOUS_ACTION = "anonymous";
+
+// 트랜잭션으로 묶인 여러 액션의 타입
+export const TRANSACTION_ACTION = "transaction";
+
+// set 옵션에서 액션 정보 추출
+export const toStoreAction = (options?: SetStateOptions): StoreAction => {
+  if (!options || !options.type) {
+    return { type: ANONYMOUS_ACTION };
+  }
+  return options.payload === undefined
+    ? { type: options.type }
+    : { type: options.type, payload: options.payload };
+};
+
+// 여러 액션을 하나로 병합 - 하나뿐이면 그대로 반환
+export const mergeActions = (actions: StoreAction[]): StoreAction => {
+  if (actions.length === 1) return actions[0];
+  return { type: TRANSACTION_ACTION, payload: actions };
+};
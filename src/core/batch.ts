@@ -0,0 +1,45 @@
+// 현재 진행 중인 배치 깊이 (중첩 배치 지원)
+let batchDepth = 0;
+
+// 배치 종료 시 실행할 작업 - Set으로 같은 작업의 중복 등록 방지
+const pendingFlushes = new Set<() => void>();
+
+// 배치 진행 여부 확인
+export const isBatching = () => batchDepth > 0;
+
+/**
+ * 배치 종료 시 실행할 작업 등록
+ * 배치 중이 아니면 즉시 실행
+ */
+export const scheduleFlush = (flush: () => void) => {
+  if (!isBatching()) {
+    flush();
+    return;
+  }
+  pendingFlushes.add(flush);
+};
+
+// 대기 중인 작업 실행 - 작업 중 새로 등록된 작업도 모두 처리
+const flushPending = () => {
+  while (pendingFlushes.size > 0) {
+    const flushes = Array.from(pendingFlushes);
+    pendingFlushes.clear();
+    flushes.forEach((flush) => flush());
+  }
+};
+
+/**
+ * 여러 setState 호출을 하나의 알림으로 묶는 함수
+ * 동기적으로 실행된 상태 변경만 묶이며, 가장 바깥 배치가 끝날 때 한 번 알림
+ */
+export const batch = <R>(fn: () => R): R => {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0) {
+      flushPending();
+    }
+  }
+};
@@ -0,0 +1,282 @@
+import { fromBase64, toBase64 } from "./base64";
+
+// 압축 방식 - lz: 내장 LZ 압축 (동기), gzip: CompressionStream (비동기)
+export type CompressionMode = "lz" | "gzip";
+
+// 압축된 데이터 접두사 - 복원 시 압축 여부와 방식 판별에 사용
+const LZ_PREFIX = "lz:";
+const GZIP_PREFIX = "gz:";
+
+// UTF-16 문자 하나에 담는 비트 수 (저장소에 안전한 문자 범위 사용)
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+/**
+ * LZ 방식으로 문자열을 압축해 UTF-16 문자열로 반환 (lz-string의 compressToUTF16 방식)
+ * localStorage처럼 문자열만 저장할 수 있는 저장소에 적합
+ */
+export const compressToUTF16 = (input: string): string => {
+  const dictionary = new Map<string, number>();
+  const dictionaryToCreate = new Set<string>();
+  let w = "";
+  let enlargeIn = 2;
+  let dictSize = 3;
+  let numBits = 2;
+  const output: string[] = [];
+  let buffer = 0;
+  let position = 0;
+
+  // 하위 비트부터 count개의 비트 기록
+  const writeBits = (value: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      buffer = (buffer << 1) | (value & 1);
+      value >>= 1;
+      if (position === BITS_PER_CHAR - 1) {
+        position = 0;
+        output.push(String.fromCharCode(buffer + CHAR_OFFSET));
+        buffer = 0;
+      } else {
+        position++;
+      }
+    }
+  };
+
+  // 사전 크기가 커지면 코드 비트 수 증가
+  const decreaseEnlargeIn = () => {
+    enlargeIn--;
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  };
+
+  // 현재 구간(w)의 코드 출력
+  const writeW = () => {
+    if (dictionaryToCreate.has(w)) {
+      // 처음 등장한 문자는 문자 코드를 직접 기록
+      const code = w.charCodeAt(0);
+      if (code < 256) {
+        writeBits(0, numBits);
+        writeBits(code, 8);
+      } else {
+        writeBits(1, numBits);
+        writeBits(code, 16);
+      }
+      decreaseEnlargeIn();
+      dictionaryToCreate.delete(w);
+    } else {
+      writeBits(dictionary.get(w)!, numBits);
+    }
+    decreaseEnlargeIn();
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charAt(i);
+    if (!dictionary.has(c)) {
+      dictionary.set(c, dictSize++);
+      dictionaryToCreate.add(c);
+    }
+
+    const wc = w + c;
+    if (dictionary.has(wc)) {
+      w = wc;
+    } else {
+      writeW();
+      dictionary.set(wc, dictSize++);
+      w = c;
+    }
+  }
+
+  if (w !== "") writeW();
+
+  // 종료 표시
+  writeBits(2, numBits);
+
+  // 마지막 문자 채우기
+  for (;;) {
+    buffer <<= 1;
+    if (position === BITS_PER_CHAR - 1) {
+      output.push(String.fromCharCode(buffer + CHAR_OFFSET));
+      break;
+    }
+    position++;
+  }
+
+  return output.join("") + " ";
+};
+
+/**
+ * compressToUTF16으로 압축한 문자열 복원
+ * 손상된 데이터이면 null 반환
+ */
+export const decompressFromUTF16 = (compressed: string): string | null => {
+  const length = compressed.length;
+  const resetValue = 1 << (BITS_PER_CHAR - 1);
+  const getNextValue = (index: number) =>
+    compressed.charCodeAt(index) - CHAR_OFFSET;
+
+  const dictionary: string[] = [];
+  let enlargeIn = 4;
+  let dictSize = 4;
+  let numBits = 3;
+  const result: string[] = [];
+  let value = getNextValue(0);
+  let position = resetValue;
+  let index = 1;
+
+  // 하위 비트부터 count개의 비트 읽기
+  const readBits = (count: number) => {
+    let bits = 0;
+    for (let power = 1; power !== 1 << count; power <<= 1) {
+      const bit = value & position;
+      position >>= 1;
+      if (position === 0) {
+        position = resetValue;
+        value = getNextValue(index++);
+      }
+      if (bit > 0) bits |= power;
+    }
+    return bits;
+  };
+
+  let c: string;
+  switch (readBits(2)) {
+    case 0:
+      c = String.fromCharCode(readBits(8));
+      break;
+    case 1:
+      c = String.fromCharCode(readBits(16));
+      break;
+    case 2:
+      return "";
+    default:
+      return null;
+  }
+  dictionary[3] = c;
+  let w = c;
+  result.push(c);
+
+  for (;;) {
+    if (index > length) return null;
+
+    let code = readBits(numBits);
+    if (code === 0 || code === 1) {
+      dictionary[dictSize++] = String.fromCharCode(
+        readBits(code === 0 ? 8 : 16)
+      );
+      code = dictSize - 1;
+      enlargeIn--;
+    } else if (code === 2) {
+      return result.join("");
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+
+    let entry: string;
+    if (dictionary[code] !== undefined) {
+      entry = dictionary[code];
+    } else if (code === dictSize) {
+      entry = w + w.charAt(0);
+    } else {
+      return null;
+    }
+    result.push(entry);
+
+    dictionary[dictSize++] = w + entry.charAt(0);
+    enlargeIn--;
+    w = entry;
+
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  }
+};
+
+// 스트림 결과를 하나의 바이트 배열로 합치기
+const readAll = async (readable: ReadableStream) => {
+  const reader = readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+  }
+
+  const result = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+// CompressionStream/DecompressionStream으로 바이트 배열 변환
+const transform = (
+  stream: { writable: WritableStream; readable: ReadableStream },
+  input: Uint8Array
+) => {
+  const writer = stream.writable.getWriter();
+  writer.write(input).catch(() => {});
+  writer.close().catch(() => {});
+  return readAll(stream.readable);
+};
+
+// CompressionStream 지원 여부
+const supportsCompressionStream = () =>
+  typeof CompressionStream !== "undefined" &&
+  typeof DecompressionStream !== "undefined";
+
+// compress 옵션을 실제 압축 방식으로 변환 - gzip을 지원하지 않으면 lz 사용
+export const resolveCompression = (
+  compress?: boolean | CompressionMode
+): CompressionMode | null => {
+  if (!compress) return null;
+  if (compress === "gzip" && supportsCompressionStream()) return "gzip";
+  return "lz";
+};
+
+// 압축 후 방식 접두사 추가
+export const compressPayload = (
+  text: string,
+  mode: CompressionMode
+): string | Promise<string> => {
+  if (mode === "lz") return LZ_PREFIX + compressToUTF16(text);
+
+  return transform(
+    new CompressionStream("gzip"),
+    new TextEncoder().encode(text)
+  ).then((bytes) => GZIP_PREFIX + toBase64(bytes));
+};
+
+/**
+ * 접두사로 압축 여부를 판별해 복원
+ * 접두사가 없으면 압축하지 않은 기존 데이터로 보고 그대로 반환
+ */
+export const decompressPayload = (text: string): string | Promise<string> => {
+  if (text.startsWith(LZ_PREFIX)) {
+    const result = decompressFromUTF16(text.slice(LZ_PREFIX.length));
+    if (result === null) {
+      throw new Error("[HSC-Store] 압축된 데이터를 복원할 수 없습니다.");
+    }
+    return result;
+  }
+
+  if (text.startsWith(GZIP_PREFIX)) {
+    if (!supportsCompressionStream()) {
+      throw new Error("[HSC-Store] DecompressionStream을 사용할 수 없습니다.");
+    }
+    return transform(
+      new DecompressionStream("gzip"),
+      fromBase64(text.slice(GZIP_PREFIX.length))
+    ).then((bytes) => new TextDecoder().decode(bytes));
+  }
+
+  return text;
+};
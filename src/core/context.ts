@@ -0,0 +1,86 @@
+"use client";
+
+import React from "react";
+import { State, Creator, StoreApi, EqualityFn } from "../types";
+import { createVanillaStore, AnyMiddleware } from "./vanilla";
+import { useStore } from "./useStore";
+
+// Provider 속성 타입
+export interface StoreProviderProps<T extends State> {
+  initialState?: Partial<T>; // creator의 초기 상태에 덮어쓸 값
+  children?: React.ReactNode;
+}
+
+/**
+ * Provider 단위로 독립된 스토어 인스턴스를 만드는 컨텍스트 생성 함수
+ * SSR 요청 간 상태 공유를 막고 같은 위젯을 여러 개 렌더링할 때 사용
+ */
+export const createStoreContext = <T extends State>(
+  creator: Creator<T>,
+  middleware?: AnyMiddleware<T>[]
+) => {
+  const StoreContext = React.createContext<StoreApi<T> | null>(null);
+
+  // 각 Provider가 자신만의 스토어를 생성
+  const Provider = ({ initialState, children }: StoreProviderProps<T>) => {
+    const storeRef = React.useRef<StoreApi<T> | null>(null);
+
+    if (!storeRef.current) {
+      // initialState를 creator 결과에 병합하여 미들웨어와 reset이 같은 초기 상태를 보도록 함
+      const creatorWithInitialState: Creator<T> = (set, get, api) => ({
+        ...creator(set, get, api),
+        ...initialState,
+      });
+      storeRef.current = createVanillaStore(
+        creatorWithInitialState,
+        middleware
+      );
+    }
+
+    // 언마운트 시 스토어 해제 - 미들웨어의 타이머, 리스너 등 정리
+    // StrictMode는 effect를 정리 후 바로 다시 실행하므로 다시 마운트되지 않은 경우에만 해제
+    const isMountedRef = React.useRef(false);
+    React.useEffect(() => {
+      isMountedRef.current = true;
+      return () => {
+        isMountedRef.current = false;
+        Promise.resolve().then(() => {
+          if (!isMountedRef.current) storeRef.current?.destroy();
+        });
+      };
+    }, []);
+
+    return React.createElement(
+      StoreContext.Provider,
+      { value: storeRef.current },
+      children
+    );
+  };
+
+  // 가장 가까운 Provider의 스토어 API 반환
+  const useStoreApi = (): StoreApi<T> => {
+    const api = React.useContext(StoreContext);
+    if (!api) {
+      throw new Error(
+        "[HSC-Store] useStoreContext는 Provider 내부에서만 사용할 수 있습니다."
+      );
+    }
+    return api;
+  };
+
+  // 가장 가까운 Provider의 스토어를 구독하는 훅
+  function useStoreContext(): T;
+  function useStoreContext<U>(
+    selector: (state: T) => U,
+    equalityFn?: EqualityFn<U>
+  ): U;
+  function useStoreContext<U>(
+    selector?: (state: T) => U,
+    equalityFn?: EqualityFn<U>
+  ) {
+    const api = useStoreApi();
+    return selector ? useStore(api, selector, equalityFn) : useStore(api);
+  }
+
+  return { Provider, useStoreContext, useStoreApi };
+};
@@ -0,0 +1,130 @@
+import { fromBase64, toBase64 } from "./base64";
+
+/**
+ * 저장 데이터 검증 실패 오류
+ * 체크섬이 맞지 않거나 복호화에 실패한 경우 (변조 또는 손상된 데이터)
+ */
+export class IntegrityError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "IntegrityError";
+    this.cause = cause;
+    // ES5 대상에서도 instanceof가 동작하도록 프로토타입 복원
+    Object.setPrototypeOf(this, IntegrityError.prototype);
+  }
+}
+
+// 암호화/복호화 함수 쌍 - 동기 또는 비동기
+export interface Encryption {
+  encrypt: (plaintext: string) => string | Promise<string>;
+  decrypt: (ciphertext: string) => string | Promise<string>;
+}
+
+/**
+ * 문자열 체크섬 계산 (FNV-1a 32비트)
+ * 손상된 데이터를 감지하기 위한 용도로, 변조 방지는 AES-GCM 인증 태그가 담당
+ */
+export const checksum = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+// AES-GCM 암호화 옵션
+export interface AESGCMOptions {
+  key: CryptoKey | string; // AES-GCM 키 또는 비밀 문구 (PBKDF2로 키 생성)
+  salt?: string; // 비밀 문구 사용 시 솔트 (기본값: "hsc-store")
+  iterations?: number; // PBKDF2 반복 횟수 (기본값: 100000)
+}
+
+// 초기화 벡터 길이 (AES-GCM 권장값)
+const IV_LENGTH = 12;
+
+// Web Crypto API 가져오기
+const getSubtle = (): SubtleCrypto => {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    throw new Error("[HSC-Store] Web Crypto를 사용할 수 없습니다.");
+  }
+  return crypto.subtle;
+};
+
+/**
+ * Web Crypto 기반 AES-GCM 암호화 생성 함수
+ * 결과는 Base64(IV + 암호문) 문자열이며, 인증 태그로 변조된 데이터는 복호화 시 거부됨
+ */
+export const createAESGCMEncryption = (options: AESGCMOptions): Encryption => {
+  const { key, salt = "hsc-store", iterations = 100000 } = options;
+
+  // 키는 최초 사용 시 한 번만 생성
+  let keyPromise: Promise<CryptoKey> | null = null;
+
+  const getKey = () => {
+    if (!keyPromise) {
+      keyPromise =
+        typeof key !== "string"
+          ? Promise.resolve(key)
+          : (async () => {
+              const subtle = getSubtle();
+              const encoder = new TextEncoder();
+              const material = await subtle.importKey(
+                "raw",
+                encoder.encode(key),
+                "PBKDF2",
+                false,
+                ["deriveKey"]
+              );
+              return subtle.deriveKey(
+                {
+                  name: "PBKDF2",
+                  salt: encoder.encode(salt),
+                  iterations,
+                  hash: "SHA-256",
+                },
+                material,
+                { name: "AES-GCM", length: 256 },
+                false,
+                ["encrypt", "decrypt"]
+              );
+            })();
+    }
+    return keyPromise;
+  };
+
+  return {
+    encrypt: async (plaintext) => {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+      const encrypted = await getSubtle().encrypt(
+        { name: "AES-GCM", iv },
+        await getKey(),
+        new TextEncoder().encode(plaintext)
+      );
+
+      const result = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+      result.set(iv);
+      result.set(new Uint8Array(encrypted), IV_LENGTH);
+      return toBase64(result);
+    },
+
+    decrypt: async (ciphertext) => {
+      try {
+        const bytes = fromBase64(ciphertext);
+        const decrypted = await getSubtle().decrypt(
+          { name: "AES-GCM", iv: bytes.subarray(0, IV_LENGTH) },
+          await getKey(),
+          bytes.subarray(IV_LENGTH)
+        );
+        return new TextDecoder().decode(decrypted);
+      } catch (e) {
+        throw new IntegrityError(
+          "[HSC-Store] 저장된 데이터를 복호화할 수 없습니다.",
+          e
+        );
+      }
+    },
+  };
+};
@@ -0,0 +1,83 @@
+"use client";
+
+import React from "react";
+import { State, UseStore } from "../types";
+
+// 하이드레이션 상태 확인에 필요한 persist API
+interface HydrationApi {
+  hasHydrated: () => boolean;
+  rehydrate: () => Promise<void>;
+  onHydrate: (listener: () => void) => () => void;
+  onFinishHydration: (listener: () => void) => () => void;
+}
+
+// 스토어의 persist API 반환 - 영구 저장을 사용하지 않으면 undefined
+// createStore에 persistMiddleware를 직접 추가한 스토어는 상태의 _persist 사용
+const getHydrationApi = <T extends State>(
+  store: UseStore<T>
+): HydrationApi | undefined =>
+  (store as any).persist || (store.getState() as any)._persist;
+
+// 서버 렌더링 결과와 일치하도록 서버에서는 항상 복원 전 상태로 취급
+const getServerSnapshot = () => false;
+
+/**
+ * 영구 저장 스토어의 하이드레이션 완료 여부를 구독하는 훅
+ * 복원이 끝나면 컴포넌트를 다시 렌더링
+ */
+export const useHydrated = <T extends State>(store: UseStore<T>): boolean => {
+  const api = getHydrationApi(store);
+
+  const subscribe = React.useCallback(
+    (onChange: () => void) => {
+      if (!api) return () => {};
+      const unsubscribeHydrate = api.onHydrate(onChange);
+      const unsubscribeFinish = api.onFinishHydration(onChange);
+      return () => {
+        unsubscribeHydrate();
+        unsubscribeFinish();
+      };
+    },
+    [api]
+  );
+
+  // persist API가 없으면 복원할 데이터가 없으므로 완료로 취급
+  const getSnapshot = React.useCallback(
+    () => (api ? api.hasHydrated() : true),
+    [api]
+  );
+
+  return React.useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+};
+
+// HydrationGate 속성 타입
+export interface HydrationGateProps {
+  store: UseStore<any>;
+  fallback?: React.ReactNode; // 복원 중에 표시할 내용
+  children?: React.ReactNode;
+}
+
+/**
+ * 스토어 복원이 끝날 때까지 자식 렌더링을 미루는 컴포넌트
+ * 복원 중에는 fallback을 렌더링하고, 아직 복원을 시작하지 않았으면 rehydrate 실행
+ */
+export const HydrationGate = ({
+  store,
+  fallback = null,
+  children,
+}: HydrationGateProps) => {
+  const isHydrated = useHydrated(store);
+
+  React.useEffect(() => {
+    const api = getHydrationApi(store);
+    if (api && !api.hasHydrated()) {
+      api.rehydrate();
+    }
+  }, [store]);
+
+  return React.createElement(
+    React.Fragment,
+    null,
+    isHydrated ? children : fallback
+  );
+};
@@ -1,2 +1,17 @@
+export * from "./batch";
+export * from "./vanilla";
+export * from "./useStore";
+export * from "./shallow";
+export * from "./useShallow";
 export * from "./createStore";
+export * from "./context";
+export * from "./storage";
 export * from "./persist";
+export * from "./persistMiddleware";
+export * from "./hydration";
+export * from "./serializer";
+export * from "./merge";
+export * from "./migration";
+export * from "./encryption";
+export * from "./compression";
+export * from "./logger";
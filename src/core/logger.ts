@@ -0,0 +1,113 @@
+// 로그 수준 - 설정한 수준 이상의 로그만 출력 ("silent"는 출력하지 않음)
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+// 로그 이벤트 - 관측 도구에서 수집할 수 있는 구조화된 형태
+export interface LogEvent {
+  level: Exclude<LogLevel, "silent">;
+  message: string;
+  store?: string; // 스토어 이름
+  phase?: string; // 발생 단계 (write, read, migrate, sync, middleware 등)
+  key?: string; // 관련 저장소 키
+  error?: unknown;
+  data?: unknown; // 추가 정보
+  timestamp: number;
+}
+
+// 로그 출력 대상
+export interface Logger {
+  debug: (event: LogEvent) => void;
+  info: (event: LogEvent) => void;
+  warn: (event: LogEvent) => void;
+  error: (event: LogEvent) => void;
+}
+
+// 로거 설정 - 전역 설정과 스토어별 설정에 공통으로 사용
+export interface LoggerOptions {
+  logger?: Logger;
+  logLevel?: LogLevel; // 기본값: 프로덕션에서는 "silent", 그 외에는 "warn"
+}
+
+// 이벤트에 함께 기록할 정보
+export type LogFields = Pick<LogEvent, "phase" | "key" | "error" | "data">;
+
+// 스토어에서 사용하는 로거
+export interface StoreLogger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+}
+
+const levelOrder: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+// 콘솔 출력 - 메시지와 오류, 추가 정보가 있을 때만 함께 출력
+const print =
+  (output: (...args: unknown[]) => void) =>
+  (event: LogEvent): void => {
+    const prefix = event.store ? `[HSC-Store:${event.store}]` : "[HSC-Store]";
+    const args: unknown[] = [`${prefix} ${event.message}`];
+    if (event.error !== undefined) args.push(event.error);
+    if (event.data !== undefined) args.push(event.data);
+    output.apply(console, args);
+  };
+
+// 기본 로거 - 콘솔에 출력
+export const consoleLogger: Logger = {
+  debug: (event) => print(console.debug)(event),
+  info: (event) => print(console.info)(event),
+  warn: (event) => print(console.warn)(event),
+  error: (event) => print(console.error)(event),
+};
+
+// 전역 로거 설정
+let globalOptions: LoggerOptions = {};
+
+/**
+ * 전역 로거 설정 함수
+ * 스토어별 logger/logLevel 옵션이 있으면 스토어 설정이 우선
+ */
+export const configureLogger = (options: LoggerOptions): void => {
+  globalOptions = { ...globalOptions, ...options };
+};
+
+// 기본 로그 수준 - 프로덕션에서는 출력하지 않음
+const getDefaultLogLevel = (): LogLevel =>
+  process.env.NODE_ENV === "production" ? "silent" : "warn";
+
+/**
+ * 스토어별 로거 생성 함수
+ * 출력할 때마다 설정을 확인하므로 스토어 생성 후에 바꾼 전역 설정도 반영됨
+ */
+export const createLogger = (
+  options: LoggerOptions & { name?: string } = {}
+): StoreLogger => {
+  const log =
+    (level: LogEvent["level"]) =>
+    (message: string, fields: LogFields = {}) => {
+      const logLevel =
+        options.logLevel ?? globalOptions.logLevel ?? getDefaultLogLevel();
+      if (levelOrder[level] < levelOrder[logLevel]) return;
+
+      const logger = options.logger ?? globalOptions.logger ?? consoleLogger;
+      logger[level]({
+        level,
+        message,
+        store: options.name,
+        ...fields,
+        timestamp: Date.now(),
+      });
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+};
@@ -0,0 +1,27 @@
+// 일반 객체 여부 확인 (배열, Date, Map 등 제외)
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (value === null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+// 재귀 병합 - 양쪽 모두 일반 객체인 경우에만 내부로 들어감
+const mergeValue = (persisted: unknown, current: unknown): unknown => {
+  if (!isPlainObject(persisted) || !isPlainObject(current)) return persisted;
+
+  const result: Record<string, unknown> = { ...current };
+  Object.keys(persisted).forEach((key) => {
+    // 현재 상태의 액션(함수)은 저장된 값으로 덮어쓰지 않음
+    if (typeof current[key] === "function") return;
+    result[key] = mergeValue(persisted[key], current[key]);
+  });
+  return result;
+};
+
+/**
+ * 저장된 상태를 현재 상태에 깊게 병합하는 함수
+ * 중첩 객체에 새로 추가된 기본값은 유지되고, 저장된 값이 있는 키는 저장된 값으로 복원됨
+ * 배열과 일반 객체가 아닌 값은 저장된 값으로 교체
+ */
+export const deepMerge = <T>(persistedState: unknown, currentState: T): T =>
+  mergeValue(persistedState, currentState) as T;
@@ -0,0 +1,92 @@
+// 버전별 마이그레이션 함수 - 비동기 함수도 지원
+export type Migrator = (state: any) => any | Promise<any>;
+
+// 마이그레이션 실패 정보
+export interface MigrationErrorInfo {
+  fromVersion: number; // 저장된 버전
+  toVersion: number; // 현재 버전
+  failedVersion?: number; // 실패한 마이그레이션 버전
+  cause?: unknown; // 원인 오류
+}
+
+/**
+ * 마이그레이션 실패 오류
+ * 다운그레이드 시도 또는 마이그레이션 함수 오류 시 발생
+ */
+export class MigrationError extends Error {
+  fromVersion: number;
+  toVersion: number;
+  failedVersion?: number;
+  cause?: unknown;
+
+  constructor(message: string, info: MigrationErrorInfo) {
+    super(message);
+    this.name = "MigrationError";
+    this.fromVersion = info.fromVersion;
+    this.toVersion = info.toVersion;
+    this.failedVersion = info.failedVersion;
+    this.cause = info.cause;
+    // ES5 대상에서도 instanceof가 동작하도록 프로토타입 복원
+    Object.setPrototypeOf(this, MigrationError.prototype);
+  }
+}
+
+/**
+ * 저장된 버전부터 현재 버전까지 마이그레이션을 순서대로 실행하는 함수
+ * 모든 마이그레이션이 동기 함수이면 결과를 바로 반환하고,
+ * 비동기 함수가 있으면 Promise를 반환
+ */
+export const runMigrations = (
+  state: any,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Record<number, Migrator>
+): any | Promise<any> => {
+  // 더 최신 버전의 데이터는 되돌릴 수 없음
+  if (fromVersion > toVersion) {
+    throw new MigrationError(
+      `[HSC-Store] 저장된 버전(${fromVersion})이 현재 버전(${toVersion})보다 높아 복원할 수 없습니다.`,
+      { fromVersion, toVersion }
+    );
+  }
+
+  // 실행할 버전 목록 (오름차순)
+  const steps = Object.keys(migrations)
+    .map(Number)
+    .filter((step) => step > fromVersion && step <= toVersion)
+    .sort((a, b) => a - b);
+
+  // 실패한 단계 정보를 담은 오류 생성
+  const toError = (step: number, cause: unknown) =>
+    cause instanceof MigrationError
+      ? cause
+      : new MigrationError(
+          `[HSC-Store] 버전 ${step} 마이그레이션에 실패했습니다.`,
+          { fromVersion, toVersion, failedVersion: step, cause }
+        );
+
+  const run = (current: any, index: number): any | Promise<any> => {
+    if (index >= steps.length) return current;
+
+    const step = steps[index];
+    let result: any;
+    try {
+      result = migrations[step](current);
+    } catch (e) {
+      throw toError(step, e);
+    }
+
+    // 비동기 마이그레이션은 완료 후 다음 단계 실행
+    if (result && typeof result.then === "function") {
+      return result.then(
+        (next: any) => run(next, index + 1),
+        (e: unknown) => {
+          throw toError(step, e);
+        }
+      );
+    }
+    return run(result, index + 1);
+  };
+
+  return run(state, 0);
+};
@@ -0,0 +1,994 @@
+import {
+  State,
+  SetState,
+  PersistOptions,
+  PersistErrorPhase,
+  StateStorage,
+  StorageValue,
+} from "../types";
+import {
+  createJSONStorage,
+  createMemoryStorage,
+  isQuotaExceededError,
+  QuotaExceededError,
+} from "./storage";
+import { MigrationError, runMigrations } from "./migration";
+import { IntegrityError, checksum } from "./encryption";
+import {
+  compressPayload,
+  decompressPayload,
+  resolveCompression,
+} from "./compression";
+import { createSyncChannel, resolveSyncMode, SyncMessage } from "./persistSync";
+import { createLogger } from "./logger";
+
+// 영구 저장 엔진 - createPersistStore와 persist가 공유하는 저장/복원 로직
+export interface PersistEngine<T extends State> {
+  persistState: (state: T) => void;
+  schedulePersist: (state: T) => void;
+  flush: () => void;
+  rehydrate: () => Promise<void>;
+  hydrateFrom: (persistedString: string | null) => boolean;
+  read: (
+    persistedString: string | null
+  ) => Partial<T> | null | Promise<Partial<T> | null>;
+  hasHydrated: () => boolean;
+  onHydrate: (listener: HydrationListener<T>) => () => void;
+  onFinishHydration: (listener: HydrationListener<T>) => () => void;
+  isHydrating: () => boolean;
+  clearStorage: () => void;
+  getSavedAt: () => number | null;
+  isFallback: () => boolean;
+  destroy: () => void;
+}
+
+// 하이드레이션 시작/완료 리스너
+export type HydrationListener<T> = (state: T) => void;
+
+// 저장 항목 - keys 옵션으로 지정한 키는 별도 항목에 저장
+interface PersistEntry {
+  name: string; // 저장소 키
+  key?: string; // 이 항목에 저장하는 상태 키 (없으면 나머지 키와 버전 정보 저장)
+  storage: StateStorage;
+  isFallback: boolean; // 메모리 저장소로 대체되었는지 여부
+}
+
+// Promise 여부 확인 (비동기 저장소 지원)
+export const isPromise = (value: unknown): value is Promise<unknown> =>
+  !!value && typeof (value as Promise<unknown>).then === "function";
+
+// 동기 값이면 바로, Promise면 완료 후 다음 단계 실행
+const pipe = <A, B>(
+  value: A | Promise<A>,
+  next: (value: A) => B | Promise<B>
+): B | Promise<B> =>
+  isPromise(value) ? (value as Promise<A>).then(next) : next(value as A);
+
+// 기본 partialize - 미들웨어 속성과 함수를 제외한 기본 데이터만 저장
+export const defaultPartialize = <T extends State>(state: T): Partial<T> => {
+  const result = { ...state };
+  // 미들웨어 관련 속성 제외 (언더스코어로 시작하는 속성)
+  Object.keys(result).forEach((key) => {
+    if (key.startsWith("_") || typeof result[key] === "function") {
+      delete result[key];
+    }
+  });
+  return result;
+};
+
+// persist API(_persist) 제외 - 사용자 정의 partialize가 제외하지 않아도 저장하거나 복원하지 않음
+const omitPersistApi = <S>(state: S): S => {
+  if (!state || !Object.prototype.hasOwnProperty.call(state, "_persist")) {
+    return state;
+  }
+  const result = { ...state } as Record<string, unknown>;
+  delete result._persist;
+  return result as S;
+};
+
+// 기본 저장소 - 브라우저 환경의 localStorage
+export const getDefaultStorage = (): StateStorage | undefined =>
+  createJSONStorage(() =>
+    typeof window !== "undefined" ? window.localStorage : undefined
+  );
+
+/**
+ * 영구 저장 엔진 생성 함수
+ * 저장소가 동기/비동기 어느 쪽이든 동일하게 동작하며,
+ * 복원이 진행 중일 때는 저장을 건너뛰어 저장된 값을 초기 상태로 덮어쓰지 않음
+ */
+export const createPersistEngine = <T extends State>(
+  options: PersistOptions<T>,
+  storage: StateStorage | undefined,
+  store: { getState: () => T; setState: SetState<T> }
+): PersistEngine<T> => {
+  const {
+    name,
+    partialize = defaultPartialize,
+    version = 0,
+    migrate = (state) => state as T,
+    onRehydrateStorage,
+    sync,
+    syncConflict = "last-writer-wins",
+    writeStrategy = {},
+    serialize = JSON.stringify,
+    deserialize = JSON.parse,
+    merge = (persistedState, currentState) => ({
+      ...currentState,
+      ...persistedState,
+    }),
+    migrations,
+    onMigrationError,
+    ttl,
+    encrypt,
+    decrypt,
+    integrity = !!encrypt,
+    compress,
+    onError,
+    onQuotaExceeded,
+    keys,
+  } = options;
+  const logger = createLogger(options);
+  // 저장할 상태 선택
+  const select = (state: T) => omitPersistApi(partialize(state));
+  const {
+    debounceMs = 0,
+    throttleMs = 0,
+    flushOnUnload = true,
+  } = writeStrategy;
+
+  // 저장 항목 - 기본 항목(name)과 keys 옵션의 키별 항목(`${name}:${key}`)
+  // 각 항목은 실패 시 메모리 저장소로 전환
+  const mainEntry: PersistEntry = {
+    name,
+    storage: storage || createMemoryStorage(),
+    isFallback: !storage,
+  };
+  const keyEntries: PersistEntry[] = [];
+  if (keys) {
+    Object.keys(keys).forEach((key) => {
+      const keyStorage = keys[key as keyof T];
+      if (keyStorage) {
+        keyEntries.push({
+          name: `${name}:${key}`,
+          key,
+          storage: keyStorage,
+          isFallback: false,
+        });
+      }
+    });
+  }
+  const entries = [mainEntry].concat(keyEntries);
+  const isSplit = keyEntries.length > 0;
+
+  // 오류 보고 - onError가 없으면 로거에 기록
+  const reportError = (
+    phase: PersistErrorPhase,
+    error: unknown,
+    message: string,
+    key = name
+  ) => {
+    if (onError) {
+      onError({ phase, error });
+    } else {
+      logger.error(message, { phase, key, error });
+    }
+  };
+
+  // 메모리 저장소로 전환해 스토어가 계속 동작하도록 함
+  const switchToFallback = (entry: PersistEntry) => {
+    if (entry.isFallback) return;
+    entry.isFallback = true;
+    entry.storage = createMemoryStorage();
+  };
+
+  // 압축 방식 (compress 옵션이 없으면 압축하지 않음)
+  const compression = resolveCompression(compress);
+
+  // 하이드레이션 상태 추적
+  let isHydrated = false;
+  let hydrationPromise: Promise<void> | null = null;
+  const hydrateListeners = new Set<HydrationListener<T>>();
+  const finishHydrationListeners = new Set<HydrationListener<T>>();
+
+  // 리스너 등록 - 해제 함수 반환
+  const listen =
+    (listeners: Set<HydrationListener<T>>) =>
+    (listener: HydrationListener<T>) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    };
+
+  // 등록된 리스너에 현재 상태 전달
+  const notify = (listeners: Set<HydrationListener<T>>) => {
+    const state = store.getState();
+    listeners.forEach((listener) => listener(state));
+  };
+
+  // 다른 탭의 변경을 반영하는 중인지 여부 (되돌려 저장하지 않기 위함)
+  let isApplyingRemote = false;
+  // 이 탭에서 마지막으로 저장한 시각 (충돌 해결에 사용)
+  let lastWriteAt = 0;
+  // 마이그레이션 실패 시 저장된 데이터를 덮어쓰지 않도록 저장 중단
+  let isWriteBlocked = false;
+
+  // 저장된 데이터가 마지막으로 바뀐 시각 (전체 및 키별)
+  let savedAt: number | null = null;
+  let keySavedAt: Record<string, number> = {};
+  // 마지막으로 저장하거나 읽어온 상태 (변경 여부 비교용)
+  let lastPersisted: Record<string, unknown> | null = null;
+
+  // 저장할 문자열에 체크섬을 붙이고 암호화
+  const seal = (serialized: string): string | Promise<string> => {
+    const payload = integrity
+      ? `${checksum(serialized)}:${serialized}`
+      : serialized;
+    const compressed = compression
+      ? compressPayload(payload, compression)
+      : payload;
+    return encrypt ? pipe(compressed, encrypt) : compressed;
+  };
+
+  // 저장된 문자열을 복호화, 압축 해제 후 체크섬 검증 - 변조되었거나 손상된 경우 IntegrityError
+  const unseal = (raw: string): string | Promise<string> => {
+    // 단계 실행 - 실패하면 IntegrityError로 변환
+    const guard =
+      (run: (value: string) => string | Promise<string>, message: string) =>
+      (value: string): string | Promise<string> => {
+        const fail = (e: unknown): never => {
+          throw e instanceof IntegrityError
+            ? e
+            : new IntegrityError(message, e);
+        };
+        try {
+          const result = run(value);
+          return isPromise(result) ? result.catch(fail) : result;
+        } catch (e) {
+          return fail(e);
+        }
+      };
+
+    const verify = (payload: string) => {
+      if (!integrity) return payload;
+
+      const separator = payload.indexOf(":");
+      const serialized = payload.slice(separator + 1);
+      if (
+        separator < 0 ||
+        checksum(serialized) !== payload.slice(0, separator)
+      ) {
+        throw new IntegrityError(
+          "[HSC-Store] 저장된 데이터의 체크섬이 일치하지 않습니다."
+        );
+      }
+      return serialized;
+    };
+
+    const decrypted = decrypt
+      ? guard(decrypt, "[HSC-Store] 저장된 데이터를 복호화할 수 없습니다.")(raw)
+      : raw;
+    // 압축 여부는 접두사로 판별하므로 압축하지 않은 기존 데이터도 그대로 읽음
+    const decompressed = pipe(
+      decrypted,
+      guard(
+        decompressPayload,
+        "[HSC-Store] 압축된 데이터를 복원할 수 없습니다."
+      )
+    );
+    return pipe(decompressed, verify);
+  };
+
+  // 저장된 문자열을 저장 값으로 변환
+  const readEntry = (
+    raw: string
+  ): StorageValue<any> | Promise<StorageValue<any>> =>
+    pipe(
+      unseal(raw),
+      (persistedString) => deserialize(persistedString) as StorageValue<any>
+    );
+
+  // 저장된 문자열을 읽고 만료된 데이터 제거 - 전체가 만료되었으면 null 반환
+  const readValue = (
+    raw: string
+  ): StorageValue<any> | null | Promise<StorageValue<any> | null> =>
+    pipe(readEntry(raw), expire);
+
+  // 만료된 데이터 제거
+  const expire = (value: StorageValue<any>): StorageValue<any> | null => {
+    if (ttl === undefined || value.savedAt === undefined) return value;
+
+    const now = Date.now();
+
+    // 스토어 전체 만료
+    if (typeof ttl === "number") {
+      return now - value.savedAt > ttl ? null : value;
+    }
+
+    // 키별 만료 - 만료된 키만 제거
+    const state = { ...value.state };
+    const stamps = { ...value.keySavedAt };
+    Object.keys(ttl).forEach((key) => {
+      const keyTtl = ttl[key as keyof T] as number;
+      const stampedAt = stamps[key] ?? value.savedAt!;
+      if (now - stampedAt > keyTtl) {
+        delete state[key];
+        delete stamps[key];
+      }
+    });
+    return { ...value, state, keySavedAt: stamps };
+  };
+
+  // 읽어온 데이터를 변경 비교 기준으로 기록
+  const track = (value: StorageValue<any> | null) => {
+    savedAt = value?.savedAt ?? null;
+    keySavedAt = { ...value?.keySavedAt };
+    lastPersisted = value ? value.state : null;
+  };
+
+  // 항목별로 마지막으로 저장하거나 읽어온 값 (keys 옵션 사용 시 바뀐 항목만 저장)
+  let lastEntries: Record<string, string | null> = {};
+
+  // 저장 값을 항목별 값으로 나누기 - 항목에 저장할 키가 없으면 null (항목 삭제)
+  const split = (
+    value: StorageValue<Partial<T>>
+  ): Array<StorageValue<any> | null> => {
+    const state = { ...value.state } as Record<string, unknown>;
+    const stampOf = (key: string) => keySavedAt[key] ?? value.savedAt!;
+
+    const parts = keyEntries.map((entry) => {
+      const key = entry.key!;
+      if (!Object.prototype.hasOwnProperty.call(state, key)) return null;
+
+      const part: StorageValue<any> = {
+        state: { [key]: state[key] },
+        version,
+        savedAt: stampOf(key),
+      };
+      delete state[key];
+      return part;
+    });
+
+    // 기본 항목에는 나머지 키와 버전 정보 저장 - 나머지 키가 바뀐 시각을 저장 시각으로 사용
+    const restKeys = Object.keys(state);
+    const main: StorageValue<any> = { state, version };
+    if (restKeys.length) {
+      main.savedAt = Math.max.apply(null, restKeys.map(stampOf));
+    }
+    if (value.keySavedAt) {
+      const stamps: Record<string, number> = {};
+      restKeys.forEach((key) => {
+        stamps[key] = stampOf(key);
+      });
+      main.keySavedAt = stamps;
+    }
+    return [main as StorageValue<any> | null].concat(parts);
+  };
+
+  // 항목별 값을 하나의 저장 값으로 합치기 - 키별 항목의 저장 시각은 그 키의 저장 시각
+  const assemble = (
+    parts: Array<StorageValue<any> | null>
+  ): StorageValue<any> | null => {
+    const present = parts.filter(Boolean) as StorageValue<any>[];
+    if (!present.length) return null;
+
+    const state: Record<string, unknown> = {};
+    const stamps: Record<string, number> = {};
+    const savedAts: number[] = [];
+    present.forEach((part) => {
+      Object.keys(part.state).forEach((key) => {
+        state[key] = part.state[key];
+        const stampedAt = part.keySavedAt?.[key] ?? part.savedAt;
+        if (stampedAt !== undefined) stamps[key] = stampedAt;
+      });
+      if (part.savedAt !== undefined) savedAts.push(part.savedAt);
+    });
+
+    return {
+      state,
+      // 버전 정보는 기본 항목 기준
+      version: (parts[0] || present[0]).version,
+      savedAt: savedAts.length ? Math.max.apply(null, savedAts) : undefined,
+      keySavedAt: stamps,
+    };
+  };
+
+  // 저장된 데이터를 현재 버전의 상태로 변환 - 비동기 마이그레이션이 있으면 Promise 반환
+  const decode = (
+    persistedState: StorageValue<any>
+  ): Partial<T> | Promise<Partial<T>> => {
+    // 버전 확인 및 마이그레이션
+    if (persistedState.version === version) {
+      return omitPersistApi(persistedState.state);
+    }
+    const migrated = migrations
+      ? runMigrations(
+          persistedState.state,
+          persistedState.version,
+          version,
+          migrations
+        )
+      : migrate(persistedState.state, persistedState.version);
+    return pipe(migrated as Partial<T> | Promise<Partial<T>>, omitPersistApi);
+  };
+
+  // 마이그레이션 오류 보고 - 이후 저장을 중단해 저장된 데이터 보호
+  const reportMigrationError = (error: MigrationError) => {
+    isWriteBlocked = true;
+    onMigrationError?.(error);
+    if (onError || !onMigrationError) {
+      reportError("migrate", error, error.message);
+    }
+  };
+
+  // 두 값이 저장 형태로 같은지 비교 (Map, Date 등도 직렬화 결과로 비교)
+  // 같은 참조면 직렬화하지 않음 - 불변 업데이트에서는 바뀌지 않은 키가 대부분 같은 참조
+  const isSameValue = (a: unknown, b: unknown) =>
+    Object.is(a, b) ||
+    serialize({ state: { value: a }, version } as StorageValue<any>) ===
+      serialize({ state: { value: b }, version } as StorageValue<any>);
+
+  // 키별 저장 시각이 필요한지 여부 - 키별 만료 또는 키별 저장소를 사용할 때만 기록
+  const needsKeyStamps =
+    isSplit || (ttl !== undefined && typeof ttl !== "number");
+
+  // 다른 탭에서 받은 변경 사항 반영
+  const applyRemote = (message: SyncMessage) => {
+    // 복원 중이면 무시
+    if (hydrationPromise) return;
+
+    // 이 탭의 변경이 더 최신인지 여부
+    const isStale = (writtenAt?: number) =>
+      syncConflict === "last-writer-wins" &&
+      writtenAt !== undefined &&
+      writtenAt < lastWriteAt;
+    if (isStale(message.savedAt)) return;
+
+    // 받은 상태를 현재 상태에 반영
+    const apply = (remoteState: Partial<T>, remoteSavedAt = Date.now()) => {
+      const localState = store.getState();
+
+      let nextState: Partial<T>;
+      if (typeof syncConflict === "function") {
+        nextState = syncConflict(remoteState, localState);
+      } else {
+        // 실제로 바뀐 키만 반영
+        const localPersisted = select(localState);
+        nextState = {};
+        Object.keys(remoteState).forEach((key) => {
+          const k = key as keyof T;
+          if (!isSameValue(remoteState[k], localPersisted[k])) {
+            nextState[k] = remoteState[k];
+          }
+        });
+      }
+
+      isApplyingRemote = true;
+      try {
+        store.setState(nextState);
+      } finally {
+        isApplyingRemote = false;
+      }
+
+      // 반영한 값은 이미 저장된 값으로 기록 - 이후 저장에서 바뀐 값으로 취급하지 않음
+      if (lastPersisted) {
+        const applied = select(store.getState()) as Record<string, unknown>;
+        const persisted = { ...lastPersisted };
+        Object.keys(nextState).forEach((key) => {
+          if (!Object.prototype.hasOwnProperty.call(applied, key)) return;
+          persisted[key] = applied[key];
+          keySavedAt[key] = remoteSavedAt;
+        });
+        lastPersisted = persisted;
+      }
+    };
+
+    // 동기화 오류 처리
+    const handleError = (e: unknown) => {
+      if (e instanceof MigrationError) {
+        reportMigrationError(e);
+      } else {
+        logger.error("탭 동기화 오류", { phase: "sync", key: name, error: e });
+      }
+    };
+
+    try {
+      // 기록 시각이 메시지에 없으면 (storage 이벤트) 저장된 값의 savedAt으로 판단
+      const result = pipe(readEntry(message.value), (entry) => {
+        if (message.savedAt === undefined && isStale(entry.savedAt)) return;
+        const value = expire(entry);
+        return value
+          ? pipe(decode(value), (remoteState) =>
+              apply(remoteState, message.savedAt ?? entry.savedAt)
+            )
+          : undefined;
+      });
+      if (isPromise(result)) result.catch(handleError);
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  // 탭 간 동기화 채널 (sync 옵션이 있을 때만 생성)
+  const syncMode = resolveSyncMode(sync);
+  const channel = syncMode
+    ? createSyncChannel(
+        name,
+        syncMode,
+        applyRemote,
+        entries.map((entry) => entry.name)
+      )
+    : null;
+
+  // 저장소에 기록 - 실패하면 handleWriteError로 처리
+  const tryWrite = (
+    entry: PersistEntry,
+    payload: string,
+    retried = false
+  ): void | Promise<void> => {
+    const onFailure = (e: unknown) =>
+      handleWriteError(entry, e, payload, retried);
+    try {
+      const result = entry.storage.setItem(entry.name, payload);
+      return isPromise(result) ? result.catch(onFailure) : result;
+    } catch (e) {
+      return onFailure(e);
+    }
+  };
+
+  // 저장 실패 처리
+  // 용량 초과는 onQuotaExceeded로 정리할 기회를 준 뒤 한 번 재시도하고,
+  // 그래도 실패하거나 저장소를 사용할 수 없으면 메모리 저장소로 전환
+  const handleWriteError = (
+    entry: PersistEntry,
+    error: unknown,
+    payload: string,
+    retried: boolean
+  ): void | Promise<void> => {
+    const failure =
+      isQuotaExceededError(error) && !(error instanceof QuotaExceededError)
+        ? new QuotaExceededError(
+            "[HSC-Store] 저장소 용량을 초과했습니다.",
+            error
+          )
+        : error;
+
+    if (failure instanceof QuotaExceededError && onQuotaExceeded && !retried) {
+      return pipe(onQuotaExceeded(failure), () =>
+        tryWrite(entry, payload, true)
+      );
+    }
+
+    reportError("write", failure, "상태 저장 오류", entry.name);
+    if (entry.isFallback) return;
+
+    switchToFallback(entry);
+    return tryWrite(entry, payload, true);
+  };
+
+  // 항목 삭제
+  const removeEntry = (entry: PersistEntry) => {
+    const reportRemoveError = (e: unknown) =>
+      logger.error("저장소 삭제 오류", {
+        phase: "remove",
+        key: entry.name,
+        error: e,
+      });
+
+    try {
+      const result = entry.storage.removeItem(entry.name);
+      if (isPromise(result)) {
+        result.catch(reportRemoveError);
+      }
+    } catch (e) {
+      reportRemoveError(e);
+    }
+  };
+
+  // 비동기 저장 순서 보장용 대기열
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  // 항목에 기록하고 다른 탭에 알림
+  const commit = (
+    entry: PersistEntry,
+    sealed: string | Promise<string>,
+    writtenAt: number
+  ) => {
+    const run = (payload: string) => {
+      const result = tryWrite(entry, payload);
+      channel?.post({ value: payload, savedAt: writtenAt });
+      return result;
+    };
+
+    // 비동기 암호화/압축은 저장 순서가 바뀌지 않도록 이전 저장이 끝난 뒤 기록
+    let result: void | Promise<void>;
+    if (isPromise(sealed)) {
+      result = writeQueue.then(() => sealed).then(run);
+      writeQueue = result.catch(() => undefined);
+    } else {
+      result = run(sealed);
+    }
+    if (isPromise(result)) {
+      result.catch((e) =>
+        reportError("write", e, "상태 저장 오류", entry.name)
+      );
+    }
+  };
+
+  // 저장소에 기록하는 함수
+  const write = (state: T) => {
+    // 복원 중이거나 다른 탭의 변경을 반영하는 중에는 저장하지 않음
+    if (hydrationPromise || isApplyingRemote || isWriteBlocked) return;
+
+    try {
+      const persisted = select(state) as Record<string, unknown>;
+      const now = Date.now();
+
+      // 마지막 저장 이후 값이 바뀐 키인지 여부
+      const isChangedKey = (key: string) =>
+        !lastPersisted ||
+        !Object.prototype.hasOwnProperty.call(lastPersisted, key) ||
+        !isSameValue(persisted[key], lastPersisted[key]);
+      const removedKeys = lastPersisted
+        ? Object.keys(lastPersisted).filter(
+            (key) => !Object.prototype.hasOwnProperty.call(persisted, key)
+          )
+        : [];
+
+      // 값이 바뀐 키만 새 시각으로 기록 (같은 값을 다시 저장해도 만료 시간은 연장되지 않음)
+      // 키별 시각이 필요 없으면 바뀐 키를 하나 찾으면 비교 중단
+      let hasChanged = !lastPersisted || removedKeys.length > 0;
+      if (needsKeyStamps) {
+        Object.keys(persisted).forEach((key) => {
+          if (!isChangedKey(key)) return;
+          keySavedAt[key] = now;
+          hasChanged = true;
+        });
+        removedKeys.forEach((key) => {
+          delete keySavedAt[key];
+        });
+      } else if (!hasChanged) {
+        hasChanged = Object.keys(persisted).some(isChangedKey);
+      }
+      if (hasChanged || savedAt === null) savedAt = now;
+      lastPersisted = persisted;
+
+      const value: StorageValue<Partial<T>> = {
+        state: persisted as Partial<T>,
+        version,
+        savedAt,
+      };
+      // 키별 만료를 사용할 때만 키별 시각 기록
+      if (ttl !== undefined && typeof ttl !== "number") {
+        value.keySavedAt = { ...keySavedAt };
+      }
+      lastWriteAt = Date.now();
+      const writtenAt = lastWriteAt;
+
+      // keys 옵션을 사용하면 항목별로 나누어 바뀐 항목만 저장
+      const parts = isSplit ? split(value) : [value];
+      parts.forEach((part, index) => {
+        const entry = entries[index];
+        const serialized = part ? serialize(part) : null;
+        if (isSplit) {
+          if (lastEntries[entry.name] === serialized) return;
+          lastEntries[entry.name] = serialized;
+        }
+
+        if (serialized === null) {
+          removeEntry(entry);
+        } else {
+          logger.debug("상태 저장", {
+            phase: "write",
+            key: entry.name,
+            data: part!.state,
+          });
+          commit(entry, seal(serialized), writtenAt);
+        }
+      });
+    } catch (e) {
+      reportError("write", e, "상태 저장 오류");
+    }
+  };
+
+  // 저장 대기 중인 상태와 타이머
+  let pendingState: T | null = null;
+  let pendingSince: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastFlushAt = 0;
+
+  // 대기 중인 저장을 즉시 실행
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pendingState) return;
+
+    const state = pendingState;
+    pendingState = null;
+    pendingSince = null;
+    lastFlushAt = Date.now();
+    write(state);
+  };
+
+  // 상태 즉시 저장 - 대기 중인 저장은 이 저장으로 대체됨
+  const persistState = (state: T) => {
+    pendingState = state;
+    flush();
+  };
+
+  // 쓰기 전략에 따라 저장 예약 - 대기 중에 들어온 변경은 마지막 상태만 저장
+  const schedulePersist = (state: T) => {
+    // 다른 탭의 변경은 다시 저장하지 않음 - 대기 중인 이 탭의 변경이 있으면 반영된 상태로 교체
+    if (isApplyingRemote) {
+      if (pendingState) pendingState = state;
+      return;
+    }
+
+    if (!debounceMs && !throttleMs) {
+      persistState(state);
+      return;
+    }
+
+    pendingState = state;
+    const now = Date.now();
+
+    // throttle: 마지막 저장 후 throttleMs가 지났으면 즉시 저장
+    if (!debounceMs) {
+      const remaining = throttleMs - (now - lastFlushAt);
+      if (remaining <= 0) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, remaining);
+      }
+      return;
+    }
+
+    // debounce: 마지막 변경 후 debounceMs 동안 변경이 없으면 저장
+    // throttleMs를 함께 지정하면 변경이 계속되어도 throttleMs마다 한 번은 저장
+    if (pendingSince === null) pendingSince = now;
+    const wait = throttleMs
+      ? Math.max(0, Math.min(debounceMs, pendingSince + throttleMs - now))
+      : debounceMs;
+
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, wait);
+  };
+
+  // 페이지를 떠날 때 대기 중인 저장 실행
+  const unloadEvents = ["pagehide", "beforeunload"];
+  const shouldFlushOnUnload = flushOnUnload && typeof window !== "undefined";
+  if (shouldFlushOnUnload) {
+    unloadEvents.forEach((event) => window.addEventListener(event, flush));
+  }
+
+  // 복원할 데이터가 없는 경우 - 만료된 데이터는 저장소에서 제거
+  const restoreNothing = (hasStoredData: boolean) => {
+    if (hasStoredData) clearStorage();
+    isHydrated = true;
+    onRehydrateStorage?.(undefined);
+    notify(finishHydrationListeners);
+  };
+
+  // 변환된 상태를 현재 상태와 병합해 스토어에 반영
+  const restore = (migratedState: Partial<T>) => {
+    // 개발 모드에서 디버깅용 로그
+    logger.debug("하이드레이션 완료", {
+      phase: "read",
+      key: name,
+      data: migratedState,
+    });
+
+    // 상태 복원 - 현재 상태와 병합
+    const restoredState = merge(migratedState, store.getState());
+
+    // 상태 업데이트 전에 하이드레이션 완료 표시
+    isHydrated = true;
+
+    // 상태 업데이트
+    store.setState(restoredState as Partial<T>);
+
+    // 콜백 실행
+    onRehydrateStorage?.(store.getState());
+    notify(finishHydrationListeners);
+  };
+
+  // 복원 실패 처리
+  const failRestore = (e: unknown) => {
+    if (e instanceof MigrationError) {
+      reportMigrationError(e);
+    } else {
+      reportError("read", e, "상태 복원 오류");
+    }
+    isHydrated = true;
+    // 변조/손상(IntegrityError)이나 마이그레이션 실패 원인을 함께 전달
+    onRehydrateStorage?.(undefined, e);
+    notify(finishHydrationListeners);
+  };
+
+  // 항목 읽기 - 저장소를 읽을 수 없으면 (SecurityError 등) 메모리 저장소로 전환
+  const readRaw = async (entry: PersistEntry): Promise<string | null> => {
+    try {
+      return await entry.storage.getItem(entry.name);
+    } catch (e) {
+      reportError("read", e, "상태 복원 오류", entry.name);
+      switchToFallback(entry);
+      return null;
+    }
+  };
+
+  // 저장된 값 읽기 - keys 옵션을 사용하면 모든 항목을 읽어 하나로 합침
+  const readStored = async (): Promise<{
+    hasStoredData: boolean;
+    value: StorageValue<any> | null;
+  }> => {
+    if (!isSplit) {
+      const raw = await readRaw(mainEntry);
+      return {
+        hasStoredData: !!raw,
+        value: raw ? await readValue(raw) : null,
+      };
+    }
+
+    const raws = await Promise.all(entries.map(readRaw));
+    const parts = await Promise.all(
+      raws.map((raw) => (raw ? readEntry(raw) : null))
+    );
+    lastEntries = {};
+    parts.forEach((part, index) => {
+      lastEntries[entries[index].name] = part ? serialize(part) : null;
+    });
+
+    const assembled = assemble(parts);
+    return {
+      hasStoredData: raws.some(Boolean),
+      value: assembled ? expire(assembled) : null,
+    };
+  };
+
+  // 저장소에서 상태를 읽어 스토어에 반영
+  const hydrate = async (): Promise<void> => {
+    try {
+      const { hasStoredData, value: persistedValue } = await readStored();
+
+      if (!persistedValue) {
+        restoreNothing(hasStoredData);
+        return;
+      }
+
+      track(persistedValue);
+      restore(await decode(persistedValue));
+    } catch (e) {
+      failRestore(e);
+    }
+  };
+
+  /**
+   * 저장된 문자열로 즉시 상태 복원 (쿠키처럼 첫 렌더링 전에 읽을 수 있는 값)
+   * 복호화, gzip 해제, 마이그레이션 중 비동기 단계가 있으면 복원하지 않고 false 반환
+   */
+  const hydrateFrom = (persistedString: string | null): boolean => {
+    if (hydrationPromise) return false;
+
+    // 비동기 단계의 실패는 이후 rehydrate에서 보고
+    const isDeferred = (value: unknown) => {
+      if (!isPromise(value)) return false;
+      value.catch(() => undefined);
+      return true;
+    };
+
+    let value: StorageValue<any> | null = null;
+    let migratedState: Partial<T> | null = null;
+    try {
+      const persistedValue = persistedString
+        ? readValue(persistedString)
+        : null;
+      if (isDeferred(persistedValue)) return false;
+
+      value = persistedValue as StorageValue<any> | null;
+      if (value) {
+        track(value);
+        const decoded = decode(value);
+        if (isDeferred(decoded)) return false;
+        migratedState = decoded as Partial<T>;
+      }
+    } catch (e) {
+      notify(hydrateListeners);
+      failRestore(e);
+      return true;
+    }
+
+    // 모든 단계가 동기로 끝난 경우에만 하이드레이션 시작 알림
+    notify(hydrateListeners);
+    try {
+      if (value) {
+        restore(migratedState as Partial<T>);
+      } else {
+        restoreNothing(!!persistedString);
+      }
+    } catch (e) {
+      failRestore(e);
+    }
+    return true;
+  };
+
+  /**
+   * 저장된 문자열을 현재 버전의 상태로 변환 - 스토어에 반영하지 않음
+   * 읽을 수 없거나 만료되었으면 null 반환 (오류는 onError 또는 로거로 보고)
+   */
+  const read = (
+    persistedString: string | null
+  ): Partial<T> | null | Promise<Partial<T> | null> => {
+    const fail = (e: unknown): null => {
+      if (e instanceof MigrationError) {
+        reportMigrationError(e);
+      } else {
+        reportError("read", e, "상태 복원 오류");
+      }
+      return null;
+    };
+    if (!persistedString) return null;
+
+    try {
+      const result = pipe(
+        readValue(persistedString),
+        (value): Partial<T> | null | Promise<Partial<T>> =>
+          value ? decode(value) : null
+      );
+      return isPromise(result)
+        ? (result as Promise<Partial<T> | null>).catch(fail)
+        : result;
+    } catch (e) {
+      return fail(e);
+    }
+  };
+
+  // 상태 복원 함수 - 동시에 여러 번 호출되어도 한 번만 복원
+  const rehydrate = (): Promise<void> => {
+    if (isHydrated) return Promise.resolve();
+    if (!hydrationPromise) {
+      notify(hydrateListeners);
+      hydrationPromise = hydrate().then(() => {
+        hydrationPromise = null;
+      });
+    }
+    return hydrationPromise;
+  };
+
+  // 저장된 상태 제거
+  const clearStorage = () => {
+    // 저장된 데이터를 지우면 다시 저장 가능
+    isWriteBlocked = false;
+    track(null);
+    lastEntries = {};
+    entries.forEach(removeEntry);
+  };
+
+  return {
+    persistState,
+    schedulePersist,
+    flush,
+    rehydrate,
+    hydrateFrom,
+    read,
+    hasHydrated: () => isHydrated,
+    onHydrate: listen(hydrateListeners),
+    onFinishHydration: listen(finishHydrationListeners),
+    isHydrating: () => hydrationPromise !== null,
+    clearStorage,
+    getSavedAt: () => savedAt,
+    isFallback: () => entries.some((entry) => entry.isFallback),
+    // 대기 중인 저장을 마친 뒤 이벤트 리스너와 동기화 채널 정리
+    destroy: () => {
+      flush();
+      if (shouldFlushOnUnload) {
+        unloadEvents.forEach((event) =>
+          window.removeEventListener(event, flush)
+        );
+      }
+      channel?.close();
+    },
+  };
+};
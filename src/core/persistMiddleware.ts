@@ -0,0 +1,146 @@
+import { State, Creator, SetState, StoreApi, PersistOptions } from "../types";
+import { createPersistEngine, getDefaultStorage } from "./persistEngine";
+import { createMemoryStorage, isCookieStorage, readCookie } from "./storage";
+import { createLogger } from "./logger";
+
+/**
+ * 영구 저장 미들웨어
+ * 상태 변경을 구독해 저장하고, 스토어를 구독하는 컴포넌트가 처음 마운트된 뒤에 복원
+ * React 없이 사용하는 스토어는 mount()를 호출한 뒤에 복원과 저장 시작
+ * persist API는 다른 미들웨어와 같이 상태의 _persist로 제공
+ */
+export const persistMiddleware = <T extends State>(
+  options: PersistOptions<T>
+) => {
+  return (creator: Creator<T>) => {
+    return (set: SetState<T>, get: () => T, api?: StoreApi<T>) => {
+      const store = creator(set, get, api);
+      if (!api) return store;
+
+      const {
+        name,
+        storage = getDefaultStorage(),
+        skipHydration = false,
+      } = options;
+      const logger = createLogger(options);
+
+      // 서버에서는 저장하지 않음 - 요청의 Cookie 헤더는 readPersistedCookie로 읽어 요청별 스토어에 전달
+      // 클라이언트에서 스토리지를 사용할 수 없으면 엔진이 메모리 저장소로 대체
+      const isServer = typeof window === "undefined";
+
+      const engine = createPersistEngine(
+        options,
+        isServer ? createMemoryStorage() : storage,
+        api
+      );
+
+      // 마운트 상태 추적 - 마운트 전에는 저장하지 않음
+      let isMounted = false;
+
+      // 현재 상태 즉시 저장
+      const persistState = () => {
+        if (!isMounted) {
+          logger.debug("마운트 전이므로 저장 건너뜀", {
+            phase: "write",
+            key: name,
+          });
+          return;
+        }
+        engine.persistState(api.getState());
+      };
+
+      // 상태 변경 구독 - setState와 액션 내부의 set 모두 감지
+      const unsubscribe = api.subscribe((state) => {
+        if (!isMounted) return;
+        logger.debug("상태 변경 감지, 저장 예약", {
+          phase: "write",
+          key: name,
+        });
+        engine.schedulePersist(state);
+      });
+
+      // React 하이드레이션 후 첫 마운트 시 저장된 상태 복원
+      if (!isServer) {
+        api.onMount(() => {
+          logger.debug("컴포넌트 마운트됨", { phase: "mount" });
+          isMounted = true;
+
+          // skipHydration이 false인 경우에만 자동 하이드레이션
+          // 복원이 끝난 뒤 현재 상태를 저장 (재방문 시 복원 가능하도록)
+          if (!skipHydration && !engine.hasHydrated()) {
+            engine.rehydrate().then(persistState);
+          } else {
+            persistState();
+          }
+        });
+      }
+
+      // 스토어 해제 시 구독 정리 및 대기 중인 저장 실행
+      api.onDestroy(() => {
+        unsubscribe();
+        engine.destroy();
+        isMounted = false;
+      });
+
+      // 쿠키 저장소는 첫 렌더링 전에 복원해 서버 렌더링 결과와 일치시킴
+      // 초기 상태(reset에 사용)는 creator의 기본값으로 유지되도록 초기화 후에 반영
+      if (!isServer && !skipHydration && isCookieStorage(storage)) {
+        api.onInit(() => {
+          engine.hydrateFrom(storage!.getItem(name) as string | null);
+        });
+      }
+
+      return {
+        ...store,
+        _persist: {
+          getOptions: () => options,
+          rehydrate: engine.rehydrate,
+          hasHydrated: engine.hasHydrated,
+          // 하이드레이션 시작/완료 구독 - 해제 함수 반환
+          onHydrate: engine.onHydrate,
+          onFinishHydration: engine.onFinishHydration,
+          clearStorage: engine.clearStorage,
+          // 대기 중인 저장 즉시 실행
+          flush: engine.flush,
+          // 저장된 데이터가 마지막으로 바뀐 시각
+          getSavedAt: engine.getSavedAt,
+          // 메모리 저장소로 대체되었는지 여부
+          isFallbackStorage: engine.isFallback,
+          // 디버깅용 상태 확인
+          getStoreState: () => ({
+            isMounted,
+            isHydrated: engine.hasHydrated(),
+          }),
+          // 강제 저장
+          forceSave: () => {
+            logger.debug("강제 저장 시도", { phase: "write", key: name });
+            persistState();
+          },
+        },
+      };
+    };
+  };
+};
+
+/**
+ * 요청의 Cookie 헤더에서 저장된 상태를 읽는 함수 (서버 렌더링용)
+ * 스토어를 변경하지 않고 복호화, 마이그레이션까지 마친 상태만 반환하므로
+ * 요청마다 만드는 스토어(createStoreContext의 Provider initialState 등)의 초기 상태로 사용
+ * 저장된 값이 없거나 읽을 수 없으면 null 반환
+ */
+export const readPersistedCookie = <T extends State>(
+  cookieHeader: string | null | undefined,
+  options: PersistOptions<T>
+): Partial<T> | null | Promise<Partial<T> | null> => {
+  // 읽기만 하므로 동기화 채널과 페이지 이탈 시 저장은 사용하지 않음
+  const engine = createPersistEngine<T>(
+    {
+      ...options,
+      sync: false,
+      writeStrategy: { ...options.writeStrategy, flushOnUnload: false },
+    },
+    createMemoryStorage(),
+    { getState: () => ({} as T), setState: () => {} }
+  );
+  return engine.read(readCookie(cookieHeader, options.name));
+};
@@ -0,0 +1,69 @@
+// 탭 간 동기화 방식
+export type SyncMode = "broadcast-channel" | "storage-event";
+
+// 다른 탭으로 전달되는 메시지
+export interface SyncMessage {
+  value: string; // 저장소에 기록된 직렬화 문자열
+  savedAt?: number; // 기록 시각 (충돌 해결에 사용) - 없으면 저장된 값의 savedAt 사용
+}
+
+// 동기화 채널
+export interface SyncChannel {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+// sync 옵션을 실제 동기화 방식으로 변환
+// true면 BroadcastChannel을 우선 사용하고, 없으면 storage 이벤트 사용
+export const resolveSyncMode = (sync?: boolean | SyncMode): SyncMode | null => {
+  if (!sync) return null;
+  if (sync === true) {
+    return typeof BroadcastChannel !== "undefined"
+      ? "broadcast-channel"
+      : "storage-event";
+  }
+  return sync;
+};
+
+/**
+ * 같은 name 키의 변경을 다른 탭과 주고받는 채널 생성 함수
+ * storage 이벤트는 브라우저가 자동으로 발생시키므로 post는 아무 일도 하지 않음
+ * keys 옵션으로 여러 항목에 나누어 저장하면 entryNames의 모든 키 변경을 전달
+ */
+export const createSyncChannel = (
+  name: string,
+  mode: SyncMode,
+  onMessage: (message: SyncMessage) => void,
+  entryNames: string[] = [name]
+): SyncChannel | null => {
+  if (typeof window === "undefined") return null;
+
+  if (mode === "broadcast-channel") {
+    if (typeof BroadcastChannel === "undefined") return null;
+
+    const channel = new BroadcastChannel(`hsc-store:${name}`);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      onMessage(event.data);
+    };
+
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  // 다른 탭에서 같은 키가 변경된 경우만 처리 (삭제는 무시)
+  // 이벤트를 받은 시각이 아니라 저장된 값의 기록 시각으로 충돌을 판단하도록 savedAt은 비워서 전달
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === null || entryNames.indexOf(event.key) < 0) return;
+    if (event.newValue === null) return;
+    onMessage({ value: event.newValue });
+  };
+
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    post: () => {},
+    close: () => window.removeEventListener("storage", handleStorage),
+  };
+};
@@ -0,0 +1,162 @@
+// 태그 키 - 일반 JSON으로 표현할 수 없는 값을 표시
+const TYPE_KEY = "__type";
+
+// 클래스 생성자 타입
+type Constructor<I> = new (...args: any[]) => I;
+
+// 직렬화할 클래스 등록 정보
+export interface SerializableClass<I = any> {
+  type: Constructor<I>;
+  toJSON?: (instance: I) => unknown; // 기본값: 인스턴스의 속성 복사
+  fromJSON?: (data: any) => I; // 기본값: 프로토타입을 연결한 객체에 속성 복사
+}
+
+// 태그 JSON 직렬화 옵션
+export interface TaggedSerializerOptions {
+  // 이름별 클래스 등록 - 생성자만 전달해도 됨
+  classes?: Record<string, Constructor<any> | SerializableClass>;
+}
+
+// 직렬화/역직렬화 함수 쌍
+export interface Serializer {
+  serialize: (value: unknown) => string;
+  deserialize: (text: string) => any;
+}
+
+/**
+ * 태그 JSON 직렬화 함수 생성
+ * Date, Map, Set, BigInt, undefined와 등록된 클래스 인스턴스를
+ * { __type, value } 형태로 기록해 복원 시 원래 타입으로 되돌림
+ */
+export const createTaggedSerializer = (
+  options: TaggedSerializerOptions = {}
+): Serializer => {
+  const classes = options.classes || {};
+  const classNames = Object.keys(classes);
+
+  // 등록 정보 정규화
+  const getClass = (name: string): SerializableClass => {
+    const entry = classes[name];
+    return typeof entry === "function" ? { type: entry } : entry;
+  };
+
+  // 인스턴스에 해당하는 등록 클래스 이름 찾기
+  const findClassName = (value: object) => {
+    for (let i = 0; i < classNames.length; i++) {
+      if (value instanceof getClass(classNames[i]).type) return classNames[i];
+    }
+    return undefined;
+  };
+
+  // 값을 JSON으로 표현 가능한 형태로 변환
+  const encode = (value: unknown): unknown => {
+    if (value === undefined) return { [TYPE_KEY]: "undefined" };
+    if (typeof value === "bigint") {
+      return { [TYPE_KEY]: "BigInt", value: value.toString() };
+    }
+    if (typeof value === "number" && !isFinite(value)) {
+      return { [TYPE_KEY]: "Number", value: String(value) };
+    }
+    if (value === null || typeof value !== "object") return value;
+
+    if (Array.isArray(value)) return value.map(encode);
+    if (value instanceof Date) {
+      return { [TYPE_KEY]: "Date", value: encode(value.getTime()) };
+    }
+    if (value instanceof Map) {
+      return {
+        [TYPE_KEY]: "Map",
+        value: Array.from(value.entries()).map(([key, item]) => [
+          encode(key),
+          encode(item),
+        ]),
+      };
+    }
+    if (value instanceof Set) {
+      return { [TYPE_KEY]: "Set", value: Array.from(value).map(encode) };
+    }
+
+    const className = findClassName(value);
+    if (className) {
+      const { toJSON = (instance: any) => ({ ...instance }) } =
+        getClass(className);
+      return {
+        [TYPE_KEY]: "Class",
+        name: className,
+        value: encode(toJSON(value)),
+      };
+    }
+
+    // 일반 객체 - 태그 키와 겹치는 속성이 있으면 한 번 감싸서 구분
+    const result: Record<string, unknown> = {};
+    Object.keys(value).forEach((key) => {
+      result[key] = encode((value as Record<string, unknown>)[key]);
+    });
+    return Object.prototype.hasOwnProperty.call(result, TYPE_KEY)
+      ? { [TYPE_KEY]: "Object", value: result }
+      : result;
+  };
+
+  // 태그가 붙은 값을 원래 타입으로 복원
+  const decode = (value: any): any => {
+    if (value === null || typeof value !== "object") return value;
+    if (Array.isArray(value)) return value.map(decode);
+
+    if (typeof value[TYPE_KEY] === "string") {
+      switch (value[TYPE_KEY]) {
+        case "undefined":
+          return undefined;
+        case "BigInt":
+          return BigInt(value.value);
+        case "Number":
+          return Number(value.value);
+        case "Date":
+          return new Date(decode(value.value));
+        case "Map":
+          return new Map(
+            value.value.map(([key, item]: [unknown, unknown]) => [
+              decode(key),
+              decode(item),
+            ])
+          );
+        case "Set":
+          return new Set(value.value.map(decode));
+        case "Class": {
+          const registered = classes[value.name];
+          if (!registered) {
+            throw new Error(
+              `[HSC-Store] 등록되지 않은 클래스입니다: ${value.name}`
+            );
+          }
+          const {
+            type,
+            fromJSON = (data: any) =>
+              Object.assign(Object.create(type.prototype), data),
+          } = getClass(value.name);
+          return fromJSON(decode(value.value));
+        }
+        case "Object":
+          return decodeObject(value.value);
+      }
+    }
+
+    return decodeObject(value);
+  };
+
+  // 일반 객체의 각 속성 복원
+  const decodeObject = (value: Record<string, unknown>) => {
+    const result: Record<string, unknown> = {};
+    Object.keys(value).forEach((key) => {
+      result[key] = decode(value[key]);
+    });
+    return result;
+  };
+
+  return {
+    serialize: (value) => JSON.stringify(encode(value)),
+    deserialize: (text) => decode(JSON.parse(text)),
+  };
+};
+
+// 기본 태그 JSON 직렬화 (클래스 등록 없음)
+export const taggedSerializer = createTaggedSerializer();
@@ -0,0 +1,59 @@
+/**
+ * 얕은 비교 함수
+ * 객체/배열/Map/Set의 최상위 값만 Object.is로 비교
+ */
+export const shallow = <T>(a: T, b: T): boolean => {
+  if (Object.is(a, b)) return true;
+
+  if (
+    typeof a !== "object" ||
+    a === null ||
+    typeof b !== "object" ||
+    b === null
+  ) {
+    return false;
+  }
+
+  // Map 비교
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) return false;
+    let isEqual = true;
+    a.forEach((value, key) => {
+      if (!b.has(key) || !Object.is(value, b.get(key))) {
+        isEqual = false;
+      }
+    });
+    return isEqual;
+  }
+
+  // Set 비교
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) return false;
+    let isEqual = true;
+    a.forEach((value) => {
+      if (!b.has(value)) {
+        isEqual = false;
+      }
+    });
+    return isEqual;
+  }
+
+  // 프로토타입이 다르면 다른 값으로 취급 (예: 배열과 객체)
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  // 일반 객체 및 배열 비교
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+
+  for (let i = 0; i < keysA.length; i++) {
+    const key = keysA[i];
+    if (
+      !Object.prototype.hasOwnProperty.call(b, key) ||
+      !Object.is((a as any)[key], (b as any)[key])
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+};
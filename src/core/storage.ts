@@ -0,0 +1,271 @@
+import { StateStorage } from "../types";
+
+/**
+ * JSON 문자열을 저장할 저장소 생성 함수
+ * 저장소 접근을 함수로 지연시켜 서버 환경이나 접근이 차단된 환경(SecurityError)에서는 undefined 반환
+ */
+export const createJSONStorage = (
+  getStorage: () => StateStorage | undefined
+): StateStorage | undefined => {
+  let storage: StateStorage | undefined;
+  try {
+    storage = getStorage();
+  } catch (e) {
+    return undefined;
+  }
+  if (!storage) return undefined;
+
+  const backend = storage;
+  return {
+    getItem: (name) => backend.getItem(name),
+    setItem: (name, value) => backend.setItem(name, value),
+    removeItem: (name) => backend.removeItem(name),
+  };
+};
+
+// IndexedDB 저장소 옵션
+export interface IndexedDBStorageOptions {
+  dbName?: string; // 데이터베이스 이름 (기본값: "hsc-store")
+  storeName?: string; // 오브젝트 스토어 이름 (기본값: "keyval")
+}
+
+/**
+ * IndexedDB 기반 비동기 저장소 생성 함수
+ * localStorage 용량 제한을 넘는 큰 스토어를 저장할 때 사용
+ */
+export const createIndexedDBStorage = (
+  options: IndexedDBStorageOptions = {}
+): StateStorage => {
+  const { dbName = "hsc-store", storeName = "keyval" } = options;
+
+  // 데이터베이스 연결은 최초 사용 시 한 번만 생성
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  // 데이터베이스 열기 - 같은 dbName을 다른 storeName으로 사용하는 저장소가 있을 수 있으므로
+  // 오브젝트 스토어가 없으면 버전을 올려 다시 열면서 생성
+  const openDatabase = (
+    resolve: (db: IDBDatabase) => void,
+    reject: (error: unknown) => void,
+    version?: number
+  ) => {
+    const request = indexedDB.open(dbName, version);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(storeName)) {
+        db.close();
+        openDatabase(resolve, reject, db.version + 1);
+        return;
+      }
+      // 다른 저장소가 버전을 올리면 연결을 닫고 다음 사용 시 다시 열기
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      // 다른 저장소가 먼저 버전을 올린 경우 현재 버전으로 다시 열기
+      if (version !== undefined && request.error?.name === "VersionError") {
+        openDatabase(resolve, reject);
+        return;
+      }
+      reject(request.error);
+    };
+  };
+
+  const getDatabase = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === "undefined") {
+          reject(new Error("[HSC-Store] IndexedDB를 사용할 수 없습니다."));
+          return;
+        }
+        openDatabase(resolve, reject);
+      });
+    }
+    return dbPromise;
+  };
+
+  // 트랜잭션 완료 시 요청 결과를 반환
+  const withStore = <R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> =>
+    getDatabase().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const transaction = db.transaction(storeName, mode);
+          const request = run(transaction.objectStore(storeName));
+          transaction.oncomplete = () => resolve(request.result);
+          transaction.onabort = () => reject(transaction.error);
+          transaction.onerror = () => reject(transaction.error);
+        })
+    );
+
+  return {
+    getItem: (name) =>
+      withStore("readonly", (store) => store.get(name)).then((value) =>
+        value === undefined ? null : (value as string)
+      ),
+    setItem: (name, value) =>
+      withStore("readwrite", (store) => store.put(value, name)).then(
+        () => undefined
+      ),
+    removeItem: (name) =>
+      withStore("readwrite", (store) => store.delete(name)).then(
+        () => undefined
+      ),
+  };
+};
+
+/**
+ * 메모리 저장소 생성 함수
+ * 브라우저 저장소를 사용할 수 없을 때 대체 저장소로 사용 (페이지를 새로 고치면 사라짐)
+ */
+export const createMemoryStorage = (): StateStorage => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (name) => (data.has(name) ? data.get(name)! : null),
+    setItem: (name, value) => {
+      data.set(name, value);
+    },
+    removeItem: (name) => {
+      data.delete(name);
+    },
+  };
+};
+
+/**
+ * 저장소 용량 초과 오류
+ * 브라우저마다 다른 용량 초과 예외를 하나의 타입으로 전달
+ */
+export class QuotaExceededError extends Error {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "QuotaExceededError";
+    this.cause = cause;
+    // ES5 대상에서도 instanceof가 동작하도록 프로토타입 복원
+    Object.setPrototypeOf(this, QuotaExceededError.prototype);
+  }
+}
+
+// 용량 초과 예외 여부 확인 (Chrome/Safari: 22, Firefox: 1014)
+export const isQuotaExceededError = (error: unknown): boolean => {
+  if (error instanceof QuotaExceededError) return true;
+  if (!error || typeof error !== "object") return false;
+
+  const { name, code } = error as { name?: string; code?: number };
+  return (
+    name === "QuotaExceededError" ||
+    name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    code === 22 ||
+    code === 1014
+  );
+};
+
+// 쿠키 저장소 옵션
+export interface CookieStorageOptions {
+  path?: string; // 쿠키 경로 (기본값: "/")
+  domain?: string; // 쿠키 도메인
+  maxAge?: number; // 유지 기간 (초 단위, 기본값: 1년)
+  sameSite?: "lax" | "strict" | "none"; // 기본값: "lax"
+  secure?: boolean; // HTTPS에서만 전송 (기본값: sameSite가 "none"이면 true)
+}
+
+// 브라우저가 허용하는 쿠키 하나의 최대 크기
+const MAX_COOKIE_SIZE = 4096;
+
+// 쿠키 저장소로 만든 저장소 목록 (첫 렌더링 전 복원 여부 판단용)
+const cookieStorages = new WeakSet<StateStorage>();
+
+// 첫 렌더링 전에 동기적으로 읽을 수 있는 쿠키 저장소인지 확인
+export const isCookieStorage = (storage: StateStorage | undefined): boolean =>
+  !!storage && cookieStorages.has(storage);
+
+/**
+ * Cookie 헤더 또는 document.cookie 문자열에서 값 읽기
+ * 서버에서 요청의 Cookie 헤더로 저장된 상태를 읽을 때 사용
+ */
+export const readCookie = (
+  cookieHeader: string | null | undefined,
+  name: string
+): string | null => {
+  if (!cookieHeader) return null;
+
+  const cookies = cookieHeader.split(";");
+  for (let i = 0; i < cookies.length; i++) {
+    const cookie = cookies[i].trim();
+    const separator = cookie.indexOf("=");
+    if (separator < 0) continue;
+
+    try {
+      if (decodeURIComponent(cookie.slice(0, separator)) === name) {
+        return decodeURIComponent(cookie.slice(separator + 1));
+      }
+    } catch (e) {
+      // 잘못 인코딩된 쿠키는 무시
+    }
+  }
+  return null;
+};
+
+/**
+ * 쿠키 기반 저장소 생성 함수
+ * 서버가 요청의 Cookie 헤더로 같은 값을 읽을 수 있어 테마, 언어처럼 첫 화면에 필요한 작은 상태에 사용
+ */
+export const createCookieStorage = (
+  options: CookieStorageOptions = {}
+): StateStorage => {
+  const {
+    path = "/",
+    domain,
+    maxAge = 60 * 60 * 24 * 365,
+    sameSite = "lax",
+    secure = sameSite === "none",
+  } = options;
+
+  // 쿠키 속성 문자열 생성
+  const attributes = (age: number) =>
+    [
+      `Path=${path}`,
+      domain ? `Domain=${domain}` : "",
+      `Max-Age=${age}`,
+      `SameSite=${sameSite}`,
+      secure ? "Secure" : "",
+    ]
+      .filter(Boolean)
+      .join("; ");
+
+  const storage: StateStorage = {
+    getItem: (name) =>
+      typeof document === "undefined"
+        ? null
+        : readCookie(document.cookie, name),
+    setItem: (name, value) => {
+      if (typeof document === "undefined") return;
+
+      const cookie = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
+      // 크기 제한을 넘는 쿠키는 브라우저가 조용히 버리므로 용량 초과로 알림
+      if (cookie.length > MAX_COOKIE_SIZE) {
+        throw new QuotaExceededError(
+          `[HSC-Store] 쿠키 크기 제한(${MAX_COOKIE_SIZE}바이트)을 초과했습니다: ${name}`
+        );
+      }
+      document.cookie = `${cookie}; ${attributes(maxAge)}`;
+    },
+    removeItem: (name) => {
+      if (typeof document === "undefined") return;
+      document.cookie = `${encodeURIComponent(name)}=; ${attributes(0)}`;
+    },
+  };
+
+  cookieStorages.add(storage);
+  return storage;
+};
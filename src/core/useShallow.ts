@@ -0,0 +1,24 @@
+"use client";
+
+import React from "react";
+import { shallow } from "./shallow";
+
+/**
+ * 선택된 결과를 얕은 비교로 메모이제이션하는 selector 생성 훅
+ * 여러 필드를 객체/배열로 선택해도 값이 같으면 동일한 참조를 반환
+ */
+export const useShallow = <S, U>(
+  selector: (state: S) => U
+): ((state: S) => U) => {
+  // 이전 선택 결과 저장
+  const prev = React.useRef<U | undefined>(undefined);
+
+  return (state: S) => {
+    const next = selector(state);
+    if (prev.current !== undefined && shallow(prev.current, next)) {
+      return prev.current;
+    }
+    prev.current = next;
+    return next;
+  };
+};
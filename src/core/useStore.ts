@@ -0,0 +1,97 @@
+"use client";
+
+import { State, StoreApi, EqualityFn } from "../types";
+import React from "react";
+
+const identity = <T>(value: T) => value;
+
+/**
+ * 순수 스토어(StoreApi)를 React 컴포넌트에 연결하는 훅
+ * equalityFn이 주어지면 선택 결과가 같다고 판단될 때 이전 참조를 유지
+ */
+export function useStore<T extends State>(api: StoreApi<T>): T;
+export function useStore<T extends State, U>(
+  api: StoreApi<T>,
+  selector: (state: T) => U,
+  equalityFn?: EqualityFn<U>
+): U;
+export function useStore<T extends State, U>(
+  api: StoreApi<T>,
+  selector: (state: T) => U = identity as (state: T) => U,
+  equalityFn?: EqualityFn<U>
+) {
+  // 서버 환경 감지
+  const isServer = typeof window === "undefined";
+
+  // 서버에서는 단순히 현재 상태 반환 (useSyncExternalStore 사용 안함)
+  if (isServer) {
+    return selector(api.getState());
+  }
+
+  // 마지막으로 렌더링된 선택 결과 (렌더링 간 equalityFn 비교용)
+  const inst = React.useRef<{ hasValue: boolean; value: U }>({
+    hasValue: false,
+    value: undefined as unknown as U,
+  }).current;
+
+  // 스냅샷이 같거나 선택 결과가 같으면 이전 결과를 재사용하는 selector
+  const [getSelection, getServerSelection] = React.useMemo(() => {
+    let hasMemo = false;
+    let memoizedSnapshot: T;
+    let memoizedSelection: U;
+
+    const memoizedSelector = (nextSnapshot: T) => {
+      if (!hasMemo) {
+        hasMemo = true;
+        memoizedSnapshot = nextSnapshot;
+        const nextSelection = selector(nextSnapshot);
+        if (
+          equalityFn &&
+          inst.hasValue &&
+          equalityFn(inst.value, nextSelection)
+        ) {
+          memoizedSelection = inst.value;
+          return inst.value;
+        }
+        memoizedSelection = nextSelection;
+        return nextSelection;
+      }
+
+      if (Object.is(memoizedSnapshot, nextSnapshot)) {
+        return memoizedSelection;
+      }
+
+      const nextSelection = selector(nextSnapshot);
+      memoizedSnapshot = nextSnapshot;
+      if (equalityFn && equalityFn(memoizedSelection, nextSelection)) {
+        return memoizedSelection;
+      }
+
+      memoizedSelection = nextSelection;
+      return nextSelection;
+    };
+
+    const getSnapshot = () => memoizedSelector(api.getState());
+    return [getSnapshot, getSnapshot];
+  }, [api, selector, equalityFn]);
+
+  // 클라이언트에서만 useSyncExternalStore 사용
+  const value = React.useSyncExternalStore(
+    api.subscribe,
+    getSelection,
+    getServerSelection
+  );
+
+  // 렌더링된 값 기록
+  React.useEffect(() => {
+    inst.hasValue = true;
+    inst.value = value;
+  }, [value]);
+
+  // 첫 마운트 알림 - 하이드레이션 이후에 할 작업(영구 저장 복원 등) 실행
+  React.useEffect(() => {
+    api.mount();
+  }, [api]);
+
+  return value;
+}
@@ -0,0 +1,331 @@
+import {
+  State,
+  Creator,
+  SetState,
+  SetStateOptions,
+  StoreApi,
+  Listener,
+  StoreAction,
+  Subscribe,
+  SubscribeOptions,
+  StoreOptions,
+} from "../types";
+import { batch, scheduleFlush } from "./batch";
+import { toStoreAction, mergeActions } from "./action";
+import { shallow } from "./shallow";
+import { createLogger } from "./logger";
+
+// 미들웨어 타입 - 다양한 형태의 미들웨어를 처리할 수 있도록 함
+export type AnyMiddleware<T extends State> =
+  | ((creator: Creator<T>) => Creator<T>)
+  | ((set: any, get: any) => any)
+  | any;
+
+/**
+ * React에 의존하지 않는 순수 스토어 생성 함수
+ * Node 워커나 React 외부 위젯에서도 동일한 스토어 정의를 사용할 수 있음
+ */
+export const createVanillaStore = <T extends State>(
+  creator: Creator<T>,
+  middleware?: AnyMiddleware<T>[],
+  options: StoreOptions = {}
+): StoreApi<T> => {
+  const logger = createLogger(options);
+
+  // 상태 및 리스너 초기화
+  let state: T;
+  // creator가 만든 초기 상태 (reset에 사용)
+  let initialState: T;
+  const listeners = new Set<Listener<T>>();
+  // 스토어 해제 시 실행할 정리 함수 (미들웨어 타이머, 이벤트 리스너 등)
+  const disposers = new Set<() => void>();
+  let isDestroyed = false;
+  // 화면에 처음 연결될 때 실행할 함수 (React 하이드레이션 이후에 할 작업 등)
+  const mountListeners = new Set<() => void>();
+  let isMounted = false;
+
+  // 초기 상태 생성이 끝난 뒤 실행할 함수 (생성 중에 등록된 구독, 저장된 상태 복원 등)
+  const initListeners = new Set<() => void>();
+  let isInitialized = false;
+
+  // 알림 대기 중인 액션 목록 (배치 중에는 여러 개가 쌓임)
+  let pendingActions: StoreAction[] = [];
+
+  // 리스너 알림 함수 - 배치 중에는 배치 종료 시 한 번만 실행됨
+  const notify = () => {
+    if (pendingActions.length === 0) return;
+    const action = mergeActions(pendingActions);
+    pendingActions = [];
+    listeners.forEach((listener) => listener(state, action));
+  };
+
+  // 변경된 상태에 대한 알림 예약
+  const commit = (options: SetStateOptions) => {
+    pendingActions.push(toStoreAction(options));
+    scheduleFlush(notify);
+  };
+
+  // 상태 업데이트 함수
+  const setState: SetState<T> = (partial, options = {}) => {
+    // 해제된 스토어는 상태를 변경하지 않음
+    if (isDestroyed) {
+      logger.warn("해제된 스토어에 setState가 호출되었습니다.", {
+        phase: "setState",
+      });
+      return;
+    }
+
+    // 새 상태 계산을 위한 부분 상태 추출
+    // state가 undefined인 경우 빈 객체를 기본값으로 사용
+    const partialState =
+      typeof partial === "function"
+        ? state !== undefined
+          ? partial(state)
+          : partial({} as T)
+        : partial;
+
+    // 반환값이 없는 업데이트 함수는 변경 없음으로 처리
+    // produceMiddleware 없이 상태를 직접 변경한 경우일 수 있으므로 경고
+    if (!partialState) {
+      if (typeof partial === "function") {
+        logger.warn(
+          "업데이트 함수가 부분 상태를 반환하지 않아 무시되었습니다. 상태를 직접 변경하려면 produceMiddleware를 사용하세요.",
+          { phase: "setState" }
+        );
+      }
+      return;
+    }
+
+    // 상태가 undefined인 경우 초기화
+    if (state === undefined) {
+      state = { ...partialState } as T;
+      commit(options);
+      return;
+    }
+
+    // 교체 모드 - 병합하지 않고 상태 전체를 교체 (키 제거 가능)
+    if (options.replace) {
+      const nextState = { ...partialState } as T;
+      if (!shallow(state, nextState)) {
+        state = nextState;
+        commit(options);
+      }
+      return;
+    }
+
+    // 실제 값 변경이 있는지 확인
+    let hasChanged = false;
+    for (const key in partialState) {
+      if (
+        Object.prototype.hasOwnProperty.call(partialState, key) &&
+        !Object.is(state[key], partialState[key])
+      ) {
+        hasChanged = true;
+        break;
+      }
+    }
+
+    // 변경된 경우에만 상태 업데이트 및 리스너 호출
+    if (hasChanged) {
+      state = { ...state, ...partialState };
+      commit(options);
+    }
+  };
+
+  // 상태 접근 함수
+  const getState = () => state;
+
+  // 구독 함수 - selector가 주어지면 선택된 값이 바뀔 때만 리스너 호출
+  const subscribe = (<U>(
+    selectorOrListener: ((state: T) => U) | Listener<T>,
+    sliceListener?: (
+      selectedState: U,
+      previousSelectedState: U,
+      action?: StoreAction
+    ) => void,
+    options: SubscribeOptions<U> = {}
+  ) => {
+    if (!sliceListener) {
+      const listener = selectorOrListener as Listener<T>;
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+
+    const selector = selectorOrListener as (state: T) => U;
+    const { equalityFn = Object.is, fireImmediately = false } = options;
+    // 스토어 생성 중(미들웨어 등)에 구독하면 상태가 아직 없으므로
+    // 첫 알림 또는 초기화가 끝난 뒤에 선택된 값을 계산
+    let currentSlice: U;
+    let hasSlice = false;
+    let isSubscribed = true;
+
+    const listener: Listener<T> = (nextState, action) => {
+      const nextSlice = selector(nextState);
+      if (!hasSlice) {
+        currentSlice = nextSlice;
+        hasSlice = true;
+        return;
+      }
+      if (equalityFn(currentSlice, nextSlice)) return;
+
+      const previousSlice = currentSlice;
+      currentSlice = nextSlice;
+      sliceListener(nextSlice, previousSlice, action);
+    };
+
+    listeners.add(listener);
+    onInit(() => {
+      if (!isSubscribed) return;
+      if (!hasSlice) {
+        currentSlice = selector(state);
+        hasSlice = true;
+      }
+      if (fireImmediately) {
+        sliceListener(currentSlice, currentSlice);
+      }
+    });
+
+    return () => {
+      isSubscribed = false;
+      listeners.delete(listener);
+    };
+  }) as Subscribe<T>;
+
+  // 트랜잭션 함수 - 내부의 모든 상태 변경을 하나의 알림으로 묶음
+  const transaction = <R>(fn: () => R): R => batch(fn);
+
+  // 초기 상태 접근 함수
+  const getInitialState = () => initialState;
+
+  // 초기 상태로 되돌리는 함수 - keys가 주어지면 해당 키만 복원
+  // 초기 상태에 액션이 포함되어 있으므로 액션은 그대로 유지됨
+  const reset = (keys?: Array<keyof T>) => {
+    if (!keys) {
+      setState(initialState, { replace: true });
+      return;
+    }
+
+    const partialState: Partial<T> = {};
+    keys.forEach((key) => {
+      partialState[key] = initialState[key];
+    });
+    setState(partialState);
+  };
+
+  // 정리 함수 등록 - 등록 해제 함수 반환
+  const onDestroy = (disposer: () => void) => {
+    disposers.add(disposer);
+    return () => {
+      disposers.delete(disposer);
+    };
+  };
+
+  // 초기화 후 실행할 함수 등록 - 이미 초기화되었으면 바로 실행, 등록 해제 함수 반환
+  // 초기 상태(getInitialState)가 정해진 뒤 첫 렌더링 전에 실행됨
+  const onInit = (listener: () => void) => {
+    if (isInitialized) {
+      listener();
+      return () => {};
+    }
+    initListeners.add(listener);
+    return () => {
+      initListeners.delete(listener);
+    };
+  };
+
+  // 마운트 시 실행할 함수 등록 - 이미 마운트되었으면 바로 실행, 등록 해제 함수 반환
+  const onMount = (listener: () => void) => {
+    if (isMounted) {
+      listener();
+      return () => {};
+    }
+    mountListeners.add(listener);
+    return () => {
+      mountListeners.delete(listener);
+    };
+  };
+
+  // 마운트 알림 - 스토어를 구독하는 컴포넌트가 처음 마운트될 때 한 번만 실행
+  const mount = () => {
+    if (isMounted || isDestroyed) return;
+    isMounted = true;
+    mountListeners.forEach((listener) => listener());
+    mountListeners.clear();
+  };
+
+  // 스토어 해제 함수 - 정리 함수 실행 후 모든 리스너 제거
+  const destroy = () => {
+    if (isDestroyed) return;
+    isDestroyed = true;
+
+    disposers.forEach((disposer) => {
+      try {
+        disposer();
+      } catch (e) {
+        logger.error("스토어 정리 오류", { phase: "destroy", error: e });
+      }
+    });
+    disposers.clear();
+    listeners.clear();
+    mountListeners.clear();
+  };
+
+  // 미들웨어에 전달할 스토어 API
+  const api: StoreApi<T> = {
+    getState,
+    setState,
+    subscribe,
+    transaction,
+    getInitialState,
+    reset,
+    onDestroy,
+    onInit,
+    onMount,
+    mount,
+    destroy,
+  };
+
+  // 미들웨어 적용
+  let finalCreator = creator;
+
+  if (middleware && middleware.length > 0) {
+    // 미들웨어 역순으로 적용 (마지막이 가장 먼저 실행)
+    for (let i = middleware.length - 1; i >= 0; i--) {
+      const middlewareItem = middleware[i];
+
+      try {
+        // 미들웨어가 함수인 경우 적용
+        if (typeof middlewareItem === "function") {
+          // @ts-ignore - 다양한 형태의 미들웨어 지원
+          finalCreator = middlewareItem(finalCreator);
+        }
+      } catch (e) {
+        logger.error("미들웨어 적용 오류", { phase: "middleware", error: e });
+      }
+    }
+  }
+
+  // 초기 상태 생성
+  try {
+    state = finalCreator(setState, getState, api);
+  } catch (e) {
+    logger.error("스토어 초기화 오류", { phase: "init", error: e });
+    // 폴백: 기본 creator 사용
+    state = creator(setState, getState, api);
+  }
+  initialState = state;
+
+  isInitialized = true;
+  initListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (e) {
+      logger.error("스토어 초기화 오류", { phase: "init", error: e });
+    }
+  });
+  initListeners.clear();
+
+  return api;
+};
@@ -0,0 +1,69 @@
+import { State, Creator, SetState, StoreApi, StoreAction } from "../types";
+
+// 액션 로그 미들웨어 옵션 인터페이스
+export interface ActionLogOptions {
+  maxEntries?: number; // 최대 로그 수 (기본값: 100)
+  enabled?: boolean; // 활성화 여부 (기본값: true)
+}
+
+// 액션 로그 항목 타입
+export interface ActionLogEntry<T extends State> extends StoreAction {
+  timestamp: number; // 상태가 변경된 시각
+  state: T; // 변경 후 상태
+}
+
+// 액션 로그 미들웨어 구현 - 모든 상태 변경을 액션 이름과 함께 기록
+export const actionLogMiddleware = <T extends State>(
+  options: ActionLogOptions = {}
+) => {
+  return (creator: Creator<T>) => {
+    return (set: SetState<T>, get: () => T, api?: StoreApi<T>) => {
+      // 옵션 기본값 설정
+      const { maxEntries = 100, enabled = true } = options;
+
+      // 로그 저장소
+      const log: ActionLogEntry<T>[] = [];
+
+      // 로그 기록 함수
+      const record = (state: T, action: StoreAction) => {
+        log.push({ ...action, timestamp: Date.now(), state });
+
+        // 로그 최대 개수 유지
+        if (log.length > maxEntries) {
+          log.shift();
+        }
+      };
+
+      const store = creator(set, get, api);
+
+      // 스토어 구독으로 기록 - 외부 setState 호출도 함께 기록됨
+      if (enabled && api) {
+        const unsubscribe = api.subscribe(record);
+        api.onDestroy(() => {
+          unsubscribe();
+          log.length = 0;
+        });
+      }
+
+      return {
+        ...store,
+        _actionLog: {
+          // 로그 목록 가져오기
+          getLog: () => log.slice(),
+
+          // 특정 타입의 로그만 가져오기
+          getLogByType: (type: string) =>
+            log.filter((entry) => entry.type === type),
+
+          // 로그를 JSON 문자열로 내보내기
+          exportLog: () => JSON.stringify(log),
+
+          // 로그 초기화
+          clearLog: () => {
+            log.length = 0;
+          },
+        },
+      };
+    };
+  };
+};
@@ -1,4 +1,4 @@
-import { State, Creator, SetState } from "../types";
+import { State, Creator, SetState, StoreApi } from "../types";
 
 // 파생 상태 옵션 인터페이스
 export interface ComputedOptions<
@@ -21,7 +21,7 @@ export const computedMiddleware = <
   options: ComputedOptions<T, C>
 ) => {
   return (creator: Creator<T>) => {
-    return (set: SetState<T>, get: () => T) => {
+    return (set: SetState<T>, get: () => T, api?: StoreApi<T>) => {
       const { computed, dependsOn = {} as Record<keyof C, Array<keyof T>> } =
         options;
 
@@ -62,19 +62,19 @@ export const computedMiddleware = <
       };
 
       // 래핑된 set 함수
-      const computedSet: SetState<T> = (payload) => {
+      const computedSet: SetState<T> = (payload, setOptions) => {
         // 변경 전 상태
         const prevState = get();
 
         // 상태 변경 적용
-        set(payload);
+        set(payload, setOptions);
 
         // 변경 후 상태
         const nextState = get();
 
-        // 변경된 키 감지
+        // 변경된 키 감지 (교체 모드로 제거된 키 포함)
         const changedKeys = new Set<string>();
-        Object.keys(nextState).forEach((key) => {
+        Object.keys({ ...prevState, ...nextState }).forEach((key) => {
           if (!Object.is(prevState[key], nextState[key])) {
             changedKeys.add(key);
           }
@@ -99,7 +99,7 @@ export const computedMiddleware = <
       };
 
       // 기본 상태 생성
-      const store = creator(computedSet, get);
+      const store = creator(computedSet, get, api);
 
       // 계산된 상태에 접근하는 프록시 생성
       const storeWithComputed = new Proxy({} as T & C, {
@@ -0,0 +1,162 @@
+import { State, Creator, SetState, StoreApi, StoreAction } from "../types";
+import { createLogger } from "../core/logger";
+
+// Redux DevTools 미들웨어 옵션 인터페이스
+export interface DevtoolsOptions {
+  name?: string; // DevTools에 표시될 스토어 이름 (기본값: "hsc-store")
+  enabled?: boolean; // 활성화 여부 (기본값: 프로덕션이 아닐 때 true)
+}
+
+// DevTools에서 전달되는 메시지 타입
+export interface DevtoolsMessage {
+  type: string;
+  payload?: any;
+  state?: string;
+}
+
+// DevTools 연결 객체 타입
+export interface DevtoolsConnection {
+  init: (state: unknown) => void;
+  send: (action: StoreAction | null, state: unknown) => void;
+  subscribe: (
+    listener: (message: DevtoolsMessage) => void
+  ) => (() => void) | void;
+  unsubscribe?: () => void;
+}
+
+// 브라우저 확장 프로그램 타입
+export interface DevtoolsExtension {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+}
+
+// 전역 객체에서 확장 프로그램 찾기
+const getExtension = (): DevtoolsExtension | undefined => {
+  if (typeof window === "undefined") return undefined;
+  return (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+};
+
+// Redux DevTools 연동 미들웨어 구현
+export const devtoolsMiddleware = <T extends State>(
+  options: DevtoolsOptions = {}
+) => {
+  return (creator: Creator<T>) => {
+    return (set: SetState<T>, get: () => T, api?: StoreApi<T>) => {
+      // 옵션 기본값 설정
+      const {
+        name = "hsc-store",
+        enabled = process.env.NODE_ENV !== "production",
+      } = options;
+
+      const extension = getExtension();
+
+      // 비활성화되었거나 확장 프로그램이 없으면 그대로 생성
+      if (!enabled || !extension || !api) {
+        return creator(set, get, api);
+      }
+
+      const connection = extension.connect({ name });
+      const logger = createLogger({ name });
+
+      // DevTools에서 전달된 상태를 적용하는 중인지 여부 (재전송 방지)
+      let isApplying = false;
+
+      // DevTools 상태 적용 - 다른 미들웨어를 거치지 않도록 스토어 API 사용
+      // 병합 방식이므로 JSON으로 전달되지 않는 액션 함수는 유지됨
+      // JSON으로 전달되므로 함수와 미들웨어 API(_로 시작하는 속성)는 제외하고 적용
+      const applyState = (nextState: Partial<T>) => {
+        const current = get();
+        const applicable: Partial<T> = {};
+        Object.keys(nextState).forEach((key) => {
+          if (key.startsWith("_") || typeof current[key] === "function") return;
+          applicable[key as keyof T] = nextState[key];
+        });
+
+        isApplying = true;
+        try {
+          api.setState(applicable, { type: "@@devtools/apply" });
+        } finally {
+          isApplying = false;
+        }
+      };
+
+      // JSON 문자열 상태 파싱
+      const parseState = (state?: string): Partial<T> | undefined => {
+        if (!state) return undefined;
+        try {
+          return JSON.parse(state);
+        } catch (e) {
+          logger.error("DevTools 상태 파싱 오류", {
+            phase: "devtools",
+            error: e,
+          });
+          return undefined;
+        }
+      };
+
+      // DevTools 메시지 처리
+      const handleMessage = (message: DevtoolsMessage) => {
+        if (message.type !== "DISPATCH" || !message.payload) return;
+
+        switch (message.payload.type) {
+          // 특정 시점으로 이동
+          case "JUMP_TO_STATE":
+          case "JUMP_TO_ACTION": {
+            const nextState = parseState(message.state);
+            if (nextState) applyState(nextState);
+            return;
+          }
+
+          // 상태 파일 가져오기 - 마지막 계산 상태를 적용
+          case "IMPORT_STATE": {
+            const { nextLiftedState } = message.payload;
+            const computedStates = nextLiftedState?.computedStates || [];
+            const lastComputed = computedStates[computedStates.length - 1];
+            if (lastComputed?.state) {
+              applyState(lastComputed.state);
+            }
+            connection.send(null, nextLiftedState);
+            return;
+          }
+
+          // 현재 상태를 새 기준점으로 설정
+          case "COMMIT":
+            connection.init(get());
+            return;
+
+          // 마지막 커밋 상태로 되돌리기
+          case "ROLLBACK": {
+            const nextState = parseState(message.state);
+            if (nextState) {
+              applyState(nextState);
+              connection.init(get());
+            }
+            return;
+          }
+        }
+      };
+
+      const store = creator(set, get, api);
+
+      // 모든 상태 변경을 액션 이름과 함께 전송
+      const unsubscribeStore = api.subscribe((state, action) => {
+        if (isApplying) return;
+        connection.send(action, state);
+      });
+      const unsubscribeMessages = connection.subscribe(handleMessage);
+
+      // 초기 상태 전송 - 생성 중에는 get()이 아직 비어 있으므로 생성 결과 사용
+      connection.init(store);
+
+      // 스토어 해제 시 연결 정리
+      api.onDestroy(() => {
+        unsubscribeStore();
+        if (typeof unsubscribeMessages === "function") {
+          unsubscribeMessages();
+        }
+        connection.unsubscribe?.();
+      });
+
+      return store;
+    };
+  };
+};
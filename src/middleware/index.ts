@@ -1,8 +1,14 @@
 export * from "./timeTravel";
 export * from "./computed";
+export * from "./produce";
+export * from "./actionLog";
+export * from "./devtools";
 
 import { computedMiddleware } from "./computed";
 import { timeTravelMiddleware } from "./timeTravel";
+import { produceMiddleware } from "./produce";
+import { actionLogMiddleware, ActionLogOptions } from "./actionLog";
+import { devtoolsMiddleware, DevtoolsOptions } from "./devtools";
 
 // 미들웨어 배열 래퍼 함수들
 export const createMiddlewareArray = () => {
@@ -16,5 +22,20 @@ export const createMiddlewareArray = () => {
     timeTravel: (options: any) => (creator: any) => {
       return timeTravelMiddleware(options)(creator);
     },
+
+    // 드래프트 변경 미들웨어 래퍼
+    produce: () => (creator: any) => {
+      return produceMiddleware()(creator);
+    },
+
+    // 액션 로그 미들웨어 래퍼
+    actionLog: (options?: ActionLogOptions) => (creator: any) => {
+      return actionLogMiddleware(options)(creator);
+    },
+
+    // DevTools 미들웨어 래퍼
+    devtools: (options?: DevtoolsOptions) => (creator: any) => {
+      return devtoolsMiddleware(options)(creator);
+    },
   };
 };
@@ -0,0 +1,196 @@
+import { State, Creator, SetState, SetStateOptions, StoreApi } from "../types";
+
+// produceMiddleware를 사용하는 스토어의 set 타입 - 드래프트를 직접 변경하는 함수도 전달 가능
+export type DraftSetState<T extends State> = (
+  partial: Partial<T> | ((draft: T) => Partial<T> | void),
+  options?: SetStateOptions
+) => void;
+
+// 드래프트 내부 상태
+interface DraftState {
+  base: any; // 원본 값
+  copy: any; // 변경 시 생성되는 얕은 복사본
+  modified: boolean; // 변경 여부
+  parent?: DraftState; // 상위 드래프트 (변경 전파용)
+}
+
+// 프록시 => 드래프트 상태 매핑
+const draftStates = new WeakMap<object, DraftState>();
+
+// 드래프트로 만들 수 있는 값인지 확인 (일반 객체와 배열만 지원)
+const isDraftable = (value: any): boolean => {
+  if (Array.isArray(value)) return true;
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+// 현재 값 (변경되었으면 복사본, 아니면 원본)
+const latest = (state: DraftState) => state.copy || state.base;
+
+// 얕은 복사본 생성
+const shallowCopy = (value: any) =>
+  Array.isArray(value) ? value.slice() : { ...value };
+
+// 변경 표시 - 상위 드래프트까지 전파
+const markChanged = (state: DraftState) => {
+  if (state.modified) return;
+  state.modified = true;
+  if (!state.copy) {
+    state.copy = shallowCopy(state.base);
+  }
+  if (state.parent) {
+    markChanged(state.parent);
+  }
+};
+
+// 드래프트 프록시 생성
+const createDraft = (base: any, parent?: DraftState): any => {
+  const state: DraftState = { base, copy: null, modified: false, parent };
+
+  // 배열은 Array.isArray가 동작하도록 배열을 대상으로 프록시 생성
+  const target = Array.isArray(base) ? [] : {};
+
+  const draft = new Proxy(target, {
+    get: (_, prop) => {
+      const source = latest(state);
+      const value = source[prop];
+
+      // 이미 드래프트이거나 드래프트 대상이 아니면 그대로 반환
+      if (!isDraftable(value) || draftStates.has(value)) {
+        return value;
+      }
+
+      // 새로 할당된 값은 드래프트로 만들지 않음
+      if (state.copy && value !== state.base[prop]) {
+        return value;
+      }
+
+      // 하위 객체 접근 시 지연 생성된 드래프트를 복사본에 저장
+      if (!state.copy) {
+        state.copy = shallowCopy(state.base);
+      }
+      const childDraft = createDraft(value, state);
+      state.copy[prop] = childDraft;
+      return childDraft;
+    },
+
+    set: (_, prop, value) => {
+      const source = latest(state);
+      const current = source[prop];
+      // 같은 값 할당은 변경으로 취급하지 않음
+      if (
+        Object.prototype.hasOwnProperty.call(source, prop) &&
+        Object.is(current, value)
+      ) {
+        return true;
+      }
+
+      markChanged(state);
+      state.copy[prop] = value;
+      return true;
+    },
+
+    deleteProperty: (_, prop) => {
+      if (!Object.prototype.hasOwnProperty.call(latest(state), prop)) {
+        return true;
+      }
+      markChanged(state);
+      delete state.copy[prop];
+      return true;
+    },
+
+    has: (_, prop) => prop in latest(state),
+
+    ownKeys: () => Reflect.ownKeys(latest(state)),
+
+    getOwnPropertyDescriptor: (_, prop) => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(latest(state), prop);
+      if (!descriptor) return undefined;
+      // 배열 length를 제외한 속성은 프록시 불변 조건을 위해 configurable로 보고
+      return prop === "length" && Array.isArray(base)
+        ? descriptor
+        : { ...descriptor, configurable: true };
+    },
+
+    getPrototypeOf: () => Object.getPrototypeOf(base),
+  });
+
+  draftStates.set(draft, state);
+  return draft;
+};
+
+// 드래프트를 일반 값으로 확정 - 변경되지 않은 부분은 원본 참조 유지
+const finalize = (value: any): any => {
+  const state = draftStates.get(value);
+
+  if (state) {
+    if (!state.modified) return state.base;
+
+    // 드래프트이거나 새로 할당된 값만 확정 (변경되지 않은 하위 트리는 순회하지 않음)
+    const copy = state.copy;
+    Object.keys(copy).forEach((key) => {
+      const child = copy[key];
+      if (draftStates.has(child) || child !== state.base[key]) {
+        copy[key] = finalize(child);
+      }
+    });
+    return copy;
+  }
+
+  // 새로 할당된 객체 안에 드래프트가 포함된 경우 처리
+  if (isDraftable(value)) {
+    Object.keys(value).forEach((key) => {
+      const child = value[key];
+      if (typeof child === "object" && child !== null) {
+        const finalized = finalize(child);
+        if (finalized !== child) {
+          value[key] = finalized;
+        }
+      }
+    });
+  }
+
+  return value;
+};
+
+/**
+ * 드래프트 변경으로 새 상태를 만드는 함수 (구조적 공유)
+ * recipe가 값을 반환하면 그 값을, 반환하지 않으면 변경된 드래프트를 결과로 사용
+ */
+export const produce = <S, R = void>(
+  base: S,
+  recipe: (draft: S) => R
+): R extends void | undefined ? S : R => {
+  if (!isDraftable(base)) {
+    const result = recipe(base);
+    return (result === undefined ? base : result) as any;
+  }
+
+  const draft = createDraft(base);
+  const result = recipe(draft);
+
+  return result === undefined ? finalize(draft) : finalize(result);
+};
+
+/**
+ * set에 드래프트 변경 함수를 전달할 수 있게 하는 미들웨어
+ * 다른 미들웨어가 원본 상태를 직접 변경하지 않도록 미들웨어 배열의 마지막에 배치
+ */
+export const produceMiddleware = <T extends State>() => {
+  return (creator: Creator<T>) => {
+    return (set: SetState<T>, get: () => T, api?: StoreApi<T>) => {
+      // 함수 형태의 업데이트를 드래프트 기반으로 변환
+      const draftSet: DraftSetState<T> = (payload, setOptions) => {
+        if (typeof payload !== "function") {
+          set(payload, setOptions);
+          return;
+        }
+
+        set(produce(get(), payload) as Partial<T>, setOptions);
+      };
+
+      return creator(draftSet, get, api);
+    };
+  };
+};
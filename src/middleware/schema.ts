@@ -1,4 +1,4 @@
-import { State, Creator, SetState } from "../types";
+import { State, Creator, SetState, StoreApi } from "../types";
 
 // 스키마 검증 미들웨어 옵션 인터페이스
 export interface SchemaOptions<T extends State> {
@@ -19,7 +19,7 @@ export const schemaMiddleware = <T extends State>(
   options: SchemaOptions<T>
 ) => {
   return (creator: Creator<T>) => {
-    return (set: SetState<T>, get: () => T) => {
+    return (set: SetState<T>, get: () => T, api?: StoreApi<T>) => {
       const { schema, onError, strict = false } = options;
 
       // 유효성 검사 함수
@@ -69,11 +69,12 @@ export const schemaMiddleware = <T extends State>(
       };
 
       // 상태 설정 함수 래핑
-      const validateAndSet: SetState<T> = (payload) => {
-        const nextState =
-          typeof payload === "function"
-            ? { ...get(), ...payload(get()) }
-            : { ...get(), ...payload };
+      const validateAndSet: SetState<T> = (payload, setOptions) => {
+        const partialState =
+          typeof payload === "function" ? payload(get()) : payload;
+        const nextState = setOptions?.replace
+          ? { ...partialState }
+          : { ...get(), ...partialState };
 
         const errors = validateState(nextState as T);
 
@@ -85,11 +86,11 @@ export const schemaMiddleware = <T extends State>(
         }
 
         // 유효하거나 비엄격 모드면 상태 변경 진행
-        set(payload);
+        set(payload, setOptions);
       };
 
       // 기본 상태 생성 및 초기 유효성 검사
-      const store = creator(validateAndSet, get);
+      const store = creator(validateAndSet, get, api);
 
       const initialErrors = validateState(store);
       if (initialErrors.length > 0 && onError) {
@@ -1,4 +1,6 @@
-import { State, Creator, SetState } from "../types";
+import { State, Creator, SetState, StoreApi, StoreAction } from "../types";
+import { isBatching, scheduleFlush } from "../core/batch";
+import { toStoreAction, mergeActions } from "../core/action";
 
 // 타임트래블 미들웨어 옵션 인터페이스
 export interface TimeTravelOptions {
@@ -11,28 +13,20 @@ export const timeTravelMiddleware = <T extends State>(
   options: TimeTravelOptions = {}
 ) => {
   return (creator: Creator<T>) => {
-    return (set: SetState<T>, get: () => T) => {
+    return (set: SetState<T>, get: () => T, api?: StoreApi<T>) => {
       // 옵션 기본값 설정
       const { maxHistory = 100, enabled = true } = options;
 
       // 히스토리 관리를 위한 변수
-      const history: { state: T; timestamp: number }[] = [];
+      const history: { state: T; timestamp: number; action: StoreAction }[] =
+        [];
       let currentPointer = -1;
       let isTimeTraveling = false;
+      // 트랜잭션 중 발생한 액션 목록
+      let transactionActions: StoreAction[] = [];
 
-      // 기본 상태 생성
-      const store = creator((payload) => {
-        if (!enabled || isTimeTraveling) {
-          set(payload);
-          return;
-        }
-
-        // 히스토리 추가
-        const newState =
-          typeof payload === "function"
-            ? { ...get(), ...payload(get()) }
-            : { ...get(), ...payload };
-
+      // 히스토리에 상태 추가
+      const pushHistory = (newState: T, action: StoreAction) => {
         // 현재 포인터 이후의 히스토리 제거 (새 분기 생성 시)
         if (currentPointer < history.length - 1) {
           history.splice(currentPointer + 1);
@@ -40,8 +34,9 @@ export const timeTravelMiddleware = <T extends State>(
 
         // 새 상태 추가
         history.push({
-          state: newState as T,
+          state: newState,
           timestamp: Date.now(),
+          action,
         });
 
         // 히스토리 최대 개수 유지
@@ -50,8 +45,50 @@ export const timeTravelMiddleware = <T extends State>(
         }
 
         currentPointer = history.length - 1;
-        set(payload);
-      }, get);
+      };
+
+      // 트랜잭션 종료 시 최종 상태를 하나의 히스토리로 기록
+      const recordTransaction = () => {
+        const action = mergeActions(transactionActions);
+        transactionActions = [];
+        pushHistory({ ...get() }, action);
+      };
+
+      // 기본 상태 생성
+      const store = creator(
+        (payload, setOptions) => {
+          if (!enabled || isTimeTraveling) {
+            set(payload, setOptions);
+            return;
+          }
+
+          // 트랜잭션 중에는 종료 시점에 한 번만 기록
+          if (isBatching()) {
+            set(payload, setOptions);
+            transactionActions.push(toStoreAction(setOptions));
+            scheduleFlush(recordTransaction);
+            return;
+          }
+
+          // 히스토리 추가
+          const partialState =
+            typeof payload === "function" ? payload(get()) : payload;
+          const newState = setOptions?.replace
+            ? { ...partialState }
+            : { ...get(), ...partialState };
+
+          pushHistory(newState as T, toStoreAction(setOptions));
+          set(payload, setOptions);
+        },
+        get,
+        api
+      );
+
+      // 스토어 해제 시 히스토리 버퍼 정리
+      api?.onDestroy(() => {
+        history.length = 0;
+        currentPointer = -1;
+      });
 
       return {
         ...store,
@@ -107,11 +144,12 @@ export const timeTravelMiddleware = <T extends State>(
             if (history.length === 0) return;
 
             // 현재 상태만 유지
-            const currentState = history[currentPointer].state;
+            const { state: currentState, action } = history[currentPointer];
             history.length = 0;
             history.push({
               state: currentState,
               timestamp: Date.now(),
+              action,
             });
             currentPointer = 0;
           },
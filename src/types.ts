@@ -1,46 +1,167 @@
+import type { MigrationError, Migrator } from "./core/migration";
+import type { CompressionMode } from "./core/compression";
+import type { QuotaExceededError } from "./core/storage";
+import type { Logger, LogLevel } from "./core/logger";
+
 // 기본 상태 타입
 export interface State {
   [key: string]: any;
 }
 
+// 상태 변경 액션 타입 - 누가 상태를 변경했는지 기록
+export interface StoreAction {
+  type: string; // 액션 이름 (예: "cart/add")
+  payload?: unknown; // 액션 데이터
+}
+
+// 상태 업데이트 옵션 타입
+export interface SetStateOptions {
+  replace?: boolean; // true면 병합하지 않고 상태 전체를 교체
+  type?: string; // 액션 이름 (기본값: "anonymous")
+  payload?: unknown; // 액션 데이터
+}
+
 // 상태 생성자 함수 타입
+// 드래프트를 직접 변경하는 함수는 produceMiddleware의 DraftSetState 사용
 export type SetState<T extends State> = (
-  partial: Partial<T> | ((state: T) => Partial<T>)
+  partial: Partial<T> | ((state: T) => Partial<T>),
+  options?: SetStateOptions
 ) => void;
 
-// 스토어 생성자 함수 타입
+// 스토어 생성자 함수 타입 - 미들웨어는 세 번째 인자로 스토어 API를 전달받음
 export type Creator<T extends State> = (
   setState: SetState<T>,
-  getState?: () => T
+  getState?: () => T,
+  api?: StoreApi<T>
 ) => T;
 
 // 미들웨어 타입 - 스토어 생성자를 받아 향상된 스토어 생성자를 반환
 export type Middleware<T extends State> = (creator: Creator<T>) => Creator<T>;
 
+// 영구 저장소 인터페이스 - 동기(localStorage) 또는 비동기(IndexedDB 등) 모두 지원
+export interface StateStorage {
+  getItem: (name: string) => string | null | Promise<string | null>;
+  setItem: (name: string, value: string) => void | Promise<void>;
+  removeItem: (name: string) => void | Promise<void>;
+}
+
+// 저장소에 기록되는 데이터 형태
+export interface StorageValue<S> {
+  state: S;
+  version: number;
+  savedAt?: number; // 데이터가 마지막으로 바뀐 시각
+  keySavedAt?: Record<string, number>; // 키별로 값이 마지막으로 바뀐 시각 (키별 ttl 사용 시)
+}
+
+// 영구 저장 쓰기 전략 타입
+export interface PersistWriteStrategy {
+  debounceMs?: number; // 마지막 변경 후 지정 시간 동안 변경이 없으면 저장
+  throttleMs?: number; // 최대 저장 빈도 (debounceMs와 함께 쓰면 최대 대기 시간)
+  flushOnUnload?: boolean; // pagehide/beforeunload 시 대기 중인 저장 실행 (기본값: true)
+}
+
+// 영구 저장 오류 단계
+export type PersistErrorPhase = "write" | "read" | "migrate";
+
+// 영구 저장 오류 정보
+export interface PersistErrorEvent {
+  phase: PersistErrorPhase; // 오류가 발생한 단계
+  error: unknown; // 원인 오류
+}
+
 // 영구 저장 옵션 타입
 export interface PersistOptions<T extends State> {
   name: string; // 로컬 스토리지 키 이름
-  storage?: Storage; // 저장소 (기본값: localStorage)
+  storage?: StateStorage; // 저장소 (기본값: localStorage)
+  keys?: { [K in keyof T]?: StateStorage }; // 키별 저장소 - 지정한 키는 `${name}:${key}` 항목에 따로 저장
   partialize?: (state: T) => Partial<T>; // 특정 부분만 저장
   version?: number; // 버전 관리용
   migrate?: (persistedState: any, version: number) => T; // 마이그레이션 함수
-  onRehydrateStorage?: (state: T | undefined) => void; // 복원 후 콜백
+  onRehydrateStorage?: (state: T | undefined, error?: unknown) => void; // 복원 후 콜백 (실패 시 오류 전달)
   skipHydration?: boolean; // 서버-클라이언트 하이드레이션 미스매치를 방지하기 위한 옵션
+  sync?: boolean | "broadcast-channel" | "storage-event"; // 탭 간 동기화 방식
+  syncConflict?:
+    | "last-writer-wins"
+    | ((remote: Partial<T>, local: T) => Partial<T>); // 탭 간 충돌 해결 정책 (기본값: "last-writer-wins")
+  writeStrategy?: PersistWriteStrategy; // 저장 빈도 조절
+  serialize?: (value: StorageValue<Partial<T>>) => string; // 직렬화 함수 (기본값: JSON.stringify)
+  deserialize?: (value: string) => StorageValue<any>; // 역직렬화 함수 (기본값: JSON.parse)
+  merge?: (persistedState: any, currentState: T) => T; // 복원 시 병합 함수 (기본값: 얕은 병합)
+  migrations?: Record<number, Migrator>; // 버전별 마이그레이션 (저장된 버전부터 순서대로 실행)
+  onMigrationError?: (error: MigrationError) => void; // 마이그레이션 실패 콜백
+  ttl?: number | { [K in keyof T]?: number }; // 만료 시간(ms) - 숫자는 스토어 전체, 객체는 키별
+  encrypt?: (plaintext: string) => string | Promise<string>; // 저장 전 암호화
+  decrypt?: (ciphertext: string) => string | Promise<string>; // 복원 전 복호화
+  integrity?: boolean; // 체크섬 검증 여부 (기본값: encrypt 사용 시 true)
+  compress?: boolean | CompressionMode; // 압축 방식 (true: "lz", "gzip": CompressionStream 사용)
+  onError?: (event: PersistErrorEvent) => void; // 저장/복원/마이그레이션 오류 콜백
+  onQuotaExceeded?: (error: QuotaExceededError) => void | Promise<void>; // 용량 초과 시 정리 콜백 (실행 후 한 번 재시도)
+  logger?: Logger; // 이 스토어의 로그 출력 대상 (기본값: 전역 설정)
+  logLevel?: LogLevel; // 이 스토어의 로그 수준 (기본값: 전역 설정)
+}
+
+// 스토어 생성 옵션
+export interface StoreOptions {
+  name?: string; // 로그에 기록할 스토어 이름
+  logger?: Logger; // 이 스토어의 로그 출력 대상 (기본값: 전역 설정)
+  logLevel?: LogLevel; // 이 스토어의 로그 수준 (기본값: 전역 설정)
+}
+
+// 선택 결과 비교 함수 타입
+export type EqualityFn<U> = (a: U, b: U) => boolean;
+
+// 상태 변경 리스너 타입 - 상태를 변경한 액션을 함께 전달
+export type Listener<T> = (state: T, action: StoreAction) => void;
+
+// selector 구독 옵션 타입
+export interface SubscribeOptions<U> {
+  equalityFn?: EqualityFn<U>; // 선택 결과 비교 함수 (기본값: Object.is)
+  fireImmediately?: boolean; // 구독 즉시 리스너 호출 여부
+}
+
+// 구독 함수 타입 - 전체 상태 구독 또는 selector 기반 구독
+export interface Subscribe<T> {
+  (listener: Listener<T>): () => void;
+  <U>(
+    selector: (state: T) => U,
+    listener: (
+      selectedState: U,
+      previousSelectedState: U,
+      action?: StoreAction
+    ) => void,
+    options?: SubscribeOptions<U>
+  ): () => void;
 }
 
 // 스토어 API 타입
 export interface StoreApi<T extends State> {
   getState: () => T;
   setState: SetState<T>;
-  subscribe: (callback: (state: T) => void) => () => void;
+  subscribe: Subscribe<T>;
+  transaction: <R>(fn: () => R) => R;
+  getInitialState: () => T;
+  reset: (keys?: Array<keyof T>) => void;
+  onDestroy: (disposer: () => void) => () => void;
+  onInit: (listener: () => void) => () => void; // 초기 상태 생성 후 첫 렌더링 전에 실행
+  onMount: (listener: () => void) => () => void; // 컴포넌트가 처음 마운트될 때 실행
+  mount: () => void; // 마운트 알림 (useStore가 자동으로 호출)
+  destroy: () => void;
 }
 
 // 훅 타입
 export interface UseStore<T extends State> {
   (): T;
-  <U>(selector: (state: T) => U): U;
+  <U>(selector: (state: T) => U, equalityFn?: EqualityFn<U>): U;
   getState: () => T;
   setState: SetState<T>;
-  subscribe: (callback: (state: T) => void) => () => void;
+  subscribe: Subscribe<T>;
+  transaction: <R>(fn: () => R) => R;
+  getInitialState: () => T;
+  reset: (keys?: Array<keyof T>) => void;
+  onDestroy: (disposer: () => void) => () => void;
+  onInit: (listener: () => void) => () => void; // 초기 상태 생성 후 첫 렌더링 전에 실행
+  onMount: (listener: () => void) => () => void; // 컴포넌트가 처음 마운트될 때 실행
+  mount: () => void; // 마운트 알림 (useStore가 자동으로 호출)
+  destroy: () => void;
   hydrate: (serverState: Partial<T>) => UseStore<T>;
 }
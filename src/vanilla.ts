@@ -0,0 +1,15 @@
+// React 없이 사용할 수 있는 진입점 - hsc-store/vanilla
+// 서버나 React를 사용하지 않는 환경에서 React를 불러오지 않도록 훅과 컴포넌트는 제외
+export * from "./types";
+export * from "./core/batch";
+export * from "./core/vanilla";
+export * from "./core/shallow";
+export * from "./core/storage";
+export * from "./core/persistMiddleware";
+export * from "./core/serializer";
+export * from "./core/merge";
+export * from "./core/migration";
+export * from "./core/encryption";
+export * from "./core/compression";
+export * from "./core/logger";
+export * from "./middleware";
@@ -0,0 +1,117 @@
+import { createStore } from "../src/core/createStore";
+import { actionLogMiddleware } from "../src/middleware/actionLog";
+import { timeTravelMiddleware } from "../src/middleware/timeTravel";
+
+interface CartState {
+  items: string[];
+  add: (item: string) => void;
+  clear: () => void;
+}
+
+const creator = (set: any) => ({
+  items: [],
+  add: (item: string) =>
+    set((state: CartState) => ({ items: state.items.concat(item) }), {
+      type: "cart/add",
+      payload: item,
+    }),
+  clear: () => set({ items: [] }, { type: "cart/clear" }),
+});
+
+describe("named actions", () => {
+  // 구독자에게 액션 전달 테스트
+  it("should pass the action to subscribers", () => {
+    const useStore = createStore<CartState>(creator);
+    const listener = jest.fn();
+    const sliceListener = jest.fn();
+    useStore.subscribe(listener);
+    useStore.subscribe((state) => state.items.length, sliceListener);
+
+    useStore.getState().add("apple");
+
+    expect(listener).toHaveBeenCalledWith(expect.any(Object), {
+      type: "cart/add",
+      payload: "apple",
+    });
+    expect(sliceListener).toHaveBeenCalledWith(1, 0, {
+      type: "cart/add",
+      payload: "apple",
+    });
+  });
+
+  // 트랜잭션 액션 병합 테스트
+  it("should merge actions of a transaction", () => {
+    const useStore = createStore<CartState>(creator);
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.transaction(() => {
+      useStore.getState().add("apple");
+      useStore.getState().add("banana");
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][1]).toEqual({
+      type: "transaction",
+      payload: [
+        { type: "cart/add", payload: "apple" },
+        { type: "cart/add", payload: "banana" },
+      ],
+    });
+  });
+
+  // 타임트래블 히스토리에 액션 기록 테스트
+  it("should record action names in time travel history", () => {
+    const useStore = createStore<CartState>(creator, [timeTravelMiddleware()]);
+    const timeTravel = (useStore.getState() as any)._timeTravel;
+
+    useStore.getState().add("apple");
+    useStore.getState().clear();
+
+    const history = timeTravel.getHistory();
+    expect(history[0].action).toEqual({ type: "cart/add", payload: "apple" });
+    expect(history[1].action).toEqual({ type: "cart/clear" });
+  });
+});
+
+describe("actionLogMiddleware", () => {
+  // 액션 로그 기록 테스트
+  it("should record every state change with its action", () => {
+    const useStore = createStore<CartState>(creator, [
+      actionLogMiddleware({ maxEntries: 2 }),
+    ]);
+    const actionLog = (useStore.getState() as any)._actionLog;
+
+    useStore.getState().add("apple");
+    useStore.setState({ items: ["external"] });
+    useStore.getState().clear();
+
+    const log = actionLog.getLog();
+    expect(log.map((entry: any) => entry.type)).toEqual([
+      "anonymous",
+      "cart/clear",
+    ]);
+    expect(log[1].state.items).toEqual([]);
+    expect(actionLog.getLogByType("cart/clear")).toHaveLength(1);
+  });
+
+  // 로그 내보내기 및 초기화 테스트
+  it("should export and clear the log", () => {
+    const useStore = createStore<CartState>(creator, [actionLogMiddleware()]);
+    const actionLog = (useStore.getState() as any)._actionLog;
+
+    useStore.getState().add("apple");
+
+    const exported = JSON.parse(actionLog.exportLog());
+    expect(exported[0]).toEqual(
+      expect.objectContaining({
+        type: "cart/add",
+        payload: "apple",
+        state: expect.objectContaining({ items: ["apple"] }),
+      })
+    );
+
+    actionLog.clearLog();
+    expect(actionLog.getLog()).toEqual([]);
+  });
+});
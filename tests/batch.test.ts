@@ -0,0 +1,86 @@
+import { batch } from "../src/core/batch";
+import { createStore } from "../src/core/createStore";
+import { timeTravelMiddleware } from "../src/middleware/timeTravel";
+
+interface TestState {
+  count: number;
+  text: string;
+  update: () => void;
+}
+
+const creator = (set: any) => ({
+  count: 0,
+  text: "hello",
+  update: () => {
+    set((state: TestState) => ({ count: state.count + 1 }));
+    set((state: TestState) => ({ count: state.count + 1 }));
+    set({ text: "updated" });
+  },
+});
+
+describe("batch", () => {
+  // 트랜잭션 알림 병합 테스트
+  it("should notify listeners once per transaction", () => {
+    const useStore = createStore<TestState>(creator);
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.transaction(() => useStore.getState().update());
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ count: 2, text: "updated" }),
+      expect.objectContaining({ type: "transaction" })
+    );
+  });
+
+  // 중첩 배치 테스트
+  it("should flush only when the outermost batch ends", () => {
+    const useStore = createStore<TestState>(creator);
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    const result = batch(() => {
+      useStore.setState({ count: 1 });
+      batch(() => useStore.setState({ count: 2 }));
+      expect(listener).not.toHaveBeenCalled();
+      // 배치 중에도 최신 상태를 읽을 수 있어야 함
+      return useStore.getState().count;
+    });
+
+    expect(result).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  // 배치 중 오류 발생 시에도 알림이 전달되는지 테스트
+  it("should flush pending notifications when the batch throws", () => {
+    const useStore = createStore<TestState>(creator);
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    expect(() =>
+      batch(() => {
+        useStore.setState({ count: 5 });
+        throw new Error("fail");
+      })
+    ).toThrow("fail");
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  // 타임트래블 히스토리 병합 테스트
+  it("should record a transaction as one time travel entry", () => {
+    const useStore = createStore<TestState>(creator, [
+      timeTravelMiddleware<TestState>(),
+    ]);
+    const timeTravel = (useStore.getState() as any)._timeTravel;
+
+    useStore.getState().update();
+    expect(timeTravel.getHistoryLength()).toBe(3);
+
+    useStore.transaction(() => useStore.getState().update());
+    expect(timeTravel.getHistoryLength()).toBe(4);
+    expect(timeTravel.getHistory()[3].state).toEqual(
+      expect.objectContaining({ count: 4, text: "updated" })
+    );
+  });
+});
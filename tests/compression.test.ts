@@ -0,0 +1,92 @@
+import { CompressionStream, DecompressionStream } from "stream/web";
+import { TextDecoder, TextEncoder } from "util";
+import {
+  compressPayload,
+  compressToUTF16,
+  decompressFromUTF16,
+  decompressPayload,
+  resolveCompression,
+} from "../src/core/compression";
+
+describe("compressToUTF16", () => {
+  // 다양한 문자열 왕복 테스트
+  it("should round-trip strings", () => {
+    const samples = [
+      "",
+      "a",
+      "hello hello hello",
+      "한글과 emoji 😀 문자열",
+      JSON.stringify({ state: { items: [1, 2, 3], name: "__proto__" } }),
+    ];
+
+    samples.forEach((text) => {
+      expect(decompressFromUTF16(compressToUTF16(text))).toBe(text);
+    });
+  });
+
+  // 반복이 많은 JSON 압축률 테스트
+  it("should shrink verbose JSON", () => {
+    const rows = Array.from({ length: 500 }, (_, id) => ({
+      id,
+      title: "dashboard widget",
+      visible: true,
+    }));
+    const json = JSON.stringify(rows);
+    const compressed = compressToUTF16(json);
+
+    expect(compressed.length).toBeLessThan(json.length / 4);
+    expect(decompressFromUTF16(compressed)).toBe(json);
+  });
+});
+
+describe("compressPayload", () => {
+  // 접두사 판별 테스트
+  it("should prefix lz payloads and pass legacy payloads through", () => {
+    const payload = compressPayload('{"state":{}}', "lz") as string;
+
+    expect(payload.startsWith("lz:")).toBe(true);
+    expect(decompressPayload(payload)).toBe('{"state":{}}');
+    expect(decompressPayload('{"state":{}}')).toBe('{"state":{}}');
+  });
+
+  // 손상된 데이터 테스트
+  it("should throw for corrupted lz payloads", () => {
+    expect(() => decompressPayload("lz: ")).toThrow();
+  });
+
+  // CompressionStream 테스트 - Node 구현 사용
+  describe("gzip", () => {
+    beforeAll(() => {
+      Object.assign(globalThis, {
+        CompressionStream,
+        DecompressionStream,
+        TextEncoder,
+        TextDecoder,
+      });
+    });
+
+    afterAll(() => {
+      delete (globalThis as any).CompressionStream;
+      delete (globalThis as any).DecompressionStream;
+    });
+
+    it("should round-trip through CompressionStream", async () => {
+      const text = JSON.stringify({ state: { title: "대시보드".repeat(50) } });
+      const payload = await compressPayload(text, "gzip");
+
+      expect(payload.startsWith("gz:")).toBe(true);
+      expect(await decompressPayload(payload)).toBe(text);
+    });
+
+    it("should resolve gzip only when streams are available", () => {
+      expect(resolveCompression("gzip")).toBe("gzip");
+      expect(resolveCompression(true)).toBe("lz");
+      expect(resolveCompression(false)).toBeNull();
+    });
+  });
+
+  // CompressionStream이 없는 환경 테스트
+  it("should fall back to lz without CompressionStream", () => {
+    expect(resolveCompression("gzip")).toBe("lz");
+  });
+});
@@ -0,0 +1,143 @@
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { createRoot } from "react-dom/client";
+import { act } from "react-dom/test-utils";
+import { createStoreContext } from "../src/core/context";
+
+interface CounterState {
+  count: number;
+  label: string;
+  increase: () => void;
+}
+
+// React 18 act 환경 설정
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const createCounterContext = () =>
+  createStoreContext<CounterState>((set) => ({
+    count: 0,
+    label: "counter",
+    increase: () => set((state) => ({ count: state.count + 1 })),
+  }));
+
+describe("createStoreContext", () => {
+  // Provider별 독립 인스턴스 테스트
+  it("should create an independent store per Provider", () => {
+    const { Provider, useStoreContext } = createCounterContext();
+
+    const Counter = () => {
+      const count = useStoreContext((state) => state.count);
+      return React.createElement("span", null, count);
+    };
+
+    const html = renderToString(
+      React.createElement(
+        "div",
+        null,
+        React.createElement(
+          Provider,
+          { initialState: { count: 1 } },
+          React.createElement(Counter)
+        ),
+        React.createElement(
+          Provider,
+          { initialState: { count: 2 } },
+          React.createElement(Counter)
+        )
+      )
+    );
+
+    expect(html).toContain("<span>1</span>");
+    expect(html).toContain("<span>2</span>");
+  });
+
+  // 한 Provider의 상태 변경이 다른 Provider에 영향을 주지 않는지 테스트
+  it("should isolate updates between Providers", () => {
+    const { Provider, useStoreContext, useStoreApi } = createCounterContext();
+    const apis: any[] = [];
+
+    const Counter = () => {
+      const count = useStoreContext((state) => state.count);
+      apis.push(useStoreApi());
+      return React.createElement("span", null, count);
+    };
+
+    const container = document.createElement("div");
+    const root = createRoot(container);
+
+    act(() =>
+      root.render(
+        React.createElement(
+          React.Fragment,
+          null,
+          React.createElement(Provider, null, React.createElement(Counter)),
+          React.createElement(Provider, null, React.createElement(Counter))
+        )
+      )
+    );
+
+    const [first, second] = apis;
+    expect(first).not.toBe(second);
+
+    act(() => first.getState().increase());
+    expect(container.textContent).toBe("10");
+
+    // initialState 없이 생성된 스토어도 reset으로 초기 상태 복원
+    act(() => first.reset());
+    expect(container.textContent).toBe("00");
+
+    act(() => root.unmount());
+  });
+
+  // Provider 언마운트 시 스토어 해제 테스트
+  it("should destroy the store when the Provider unmounts", async () => {
+    const dispose = jest.fn();
+    const disposeMiddleware =
+      (creator: any) => (set: any, get: any, api: any) => {
+        api.onDestroy(dispose);
+        return creator(set, get, api);
+      };
+    const { Provider } = createStoreContext<CounterState>(
+      (set) => ({
+        count: 0,
+        label: "counter",
+        increase: () => set((state) => ({ count: state.count + 1 })),
+      }),
+      [disposeMiddleware]
+    );
+
+    const container = document.createElement("div");
+    const root = createRoot(container);
+
+    // StrictMode의 effect 재실행으로는 해제되지 않음
+    act(() =>
+      root.render(
+        React.createElement(
+          React.StrictMode,
+          null,
+          React.createElement(Provider, null)
+        )
+      )
+    );
+    await Promise.resolve();
+    expect(dispose).not.toHaveBeenCalled();
+
+    act(() => root.unmount());
+    await Promise.resolve();
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  // Provider 밖에서 사용 시 오류 테스트
+  it("should throw when used outside of a Provider", () => {
+    const { useStoreContext } = createCounterContext();
+
+    const Counter = () => {
+      useStoreContext();
+      return null;
+    };
+
+    expect(() => renderToString(React.createElement(Counter))).toThrow(
+      "Provider"
+    );
+  });
+});
@@ -50,10 +50,16 @@ describe("createStore", () => {
     const unsubscribe = useStore.subscribe(listener);
 
     useStore.setState({ count: 5 });
-    expect(listener).toHaveBeenCalledWith({ count: 5, text: "hello" });
+    expect(listener).toHaveBeenCalledWith(
+      { count: 5, text: "hello" },
+      { type: "anonymous" }
+    );
 
     useStore.setState({ text: "world" });
-    expect(listener).toHaveBeenCalledWith({ count: 5, text: "world" });
+    expect(listener).toHaveBeenCalledWith(
+      { count: 5, text: "world" },
+      { type: "anonymous" }
+    );
 
     // 구독 취소 테스트
     unsubscribe();
@@ -89,4 +95,51 @@ describe("createStore", () => {
     storeWithPartial.hydrate({ count: 20 });
     expect(storeWithPartial.getState()).toEqual({ count: 20, text: "hello" });
   });
+
+  // 교체 모드 테스트
+  it("should replace the whole state with replace option", () => {
+    const useStore = createStore<TestState & { extra?: boolean }>(() => ({
+      count: 0,
+      text: "hello",
+      extra: true,
+    }));
+
+    const listener = jest.fn();
+    useStore.subscribe(listener);
+
+    useStore.setState({ count: 1, text: "replaced" }, { replace: true });
+    expect(useStore.getState()).toEqual({ count: 1, text: "replaced" });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // 동일한 상태로 교체하면 알림 없음
+    useStore.setState({ count: 1, text: "replaced" }, { replace: true });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  // 초기 상태 및 reset 테스트
+  it("should reset to the initial state while keeping actions", () => {
+    const useStore = createStore<
+      TestState & { extra?: string; increase: () => void }
+    >((set) => ({
+      count: 0,
+      text: "hello",
+      increase: () => set((state) => ({ count: state.count + 1 })),
+    }));
+
+    const initialState = useStore.getInitialState();
+    useStore.getState().increase();
+    useStore.setState({ text: "changed", extra: "added" });
+
+    // 특정 키만 복원
+    useStore.reset(["text"]);
+    expect(useStore.getState().text).toBe("hello");
+    expect(useStore.getState().count).toBe(1);
+
+    // 전체 복원 - 추가된 키는 제거되고 액션은 유지
+    useStore.reset();
+    expect(useStore.getState()).toEqual(initialState);
+    expect(useStore.getState().extra).toBeUndefined();
+    useStore.getState().increase();
+    expect(useStore.getState().count).toBe(1);
+  });
 });
@@ -0,0 +1,152 @@
+import { createStore } from "../src/core/createStore";
+import { devtoolsMiddleware } from "../src/middleware/devtools";
+import { timeTravelMiddleware } from "../src/middleware/timeTravel";
+
+interface CounterState {
+  count: number;
+  increase: () => void;
+}
+
+// Redux DevTools 확장 프로그램 목(mock)
+const createFakeExtension = () => {
+  let messageListener: (message: any) => void = () => {};
+  const connection = {
+    init: jest.fn(),
+    send: jest.fn(),
+    unsubscribe: jest.fn(),
+    subscribe: jest.fn((listener: (message: any) => void) => {
+      messageListener = listener;
+      return jest.fn();
+    }),
+  };
+  const extension = { connect: jest.fn(() => connection) };
+  const dispatch = (message: any) => messageListener(message);
+
+  return { extension, connection, dispatch };
+};
+
+const creator = (set: any) => ({
+  count: 0,
+  increase: () =>
+    set((state: CounterState) => ({ count: state.count + 1 }), {
+      type: "counter/increase",
+    }),
+});
+
+describe("devtoolsMiddleware", () => {
+  let fake: ReturnType<typeof createFakeExtension>;
+
+  beforeEach(() => {
+    fake = createFakeExtension();
+    (window as any).__REDUX_DEVTOOLS_EXTENSION__ = fake.extension;
+  });
+
+  afterEach(() => {
+    delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  // 연결 및 액션 전송 테스트
+  it("should connect and send every setState with its action", () => {
+    const useStore = createStore<CounterState>(creator, [
+      devtoolsMiddleware({ name: "counter" }),
+    ]);
+
+    expect(fake.extension.connect).toHaveBeenCalledWith({ name: "counter" });
+    expect(fake.connection.init).toHaveBeenCalledWith(
+      expect.objectContaining({ count: 0 })
+    );
+
+    useStore.getState().increase();
+    useStore.setState({ count: 5 });
+
+    expect(fake.connection.send).toHaveBeenNthCalledWith(
+      1,
+      { type: "counter/increase" },
+      expect.objectContaining({ count: 1 })
+    );
+    expect(fake.connection.send).toHaveBeenNthCalledWith(
+      2,
+      { type: "anonymous" },
+      expect.objectContaining({ count: 5 })
+    );
+  });
+
+  // 시점 이동 메시지 처리 테스트
+  it("should apply JUMP_TO_STATE and JUMP_TO_ACTION without sending", () => {
+    const useStore = createStore<CounterState>(creator, [devtoolsMiddleware()]);
+
+    fake.dispatch({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify({ count: 3 }),
+    });
+    expect(useStore.getState().count).toBe(3);
+
+    fake.dispatch({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_ACTION" },
+      state: JSON.stringify({ count: 7 }),
+    });
+    expect(useStore.getState().count).toBe(7);
+
+    // 액션 함수는 유지되어야 함
+    useStore.getState().increase();
+    expect(useStore.getState().count).toBe(8);
+    expect(fake.connection.send).toHaveBeenCalledTimes(1);
+  });
+
+  // 다른 미들웨어 API가 JSON 상태로 덮어써지지 않는지 테스트
+  it("should keep middleware apis when applying a devtools state", () => {
+    const useStore = createStore<CounterState & { _timeTravel?: any }>(
+      creator,
+      [devtoolsMiddleware(), timeTravelMiddleware()]
+    );
+    useStore.getState().increase();
+
+    // DevTools는 직렬화된 전체 상태를 보내므로 _timeTravel이 {}로 전달됨
+    const serialized = JSON.parse(JSON.stringify(useStore.getState()));
+    expect(serialized._timeTravel).toEqual({});
+
+    fake.dispatch({
+      type: "DISPATCH",
+      payload: { type: "JUMP_TO_STATE" },
+      state: JSON.stringify({ ...serialized, count: 0 }),
+    });
+
+    expect(useStore.getState().count).toBe(0);
+    expect(typeof useStore.getState()._timeTravel.goBack).toBe("function");
+    expect(typeof useStore.getState().increase).toBe("function");
+  });
+
+  // 상태 가져오기 및 커밋 메시지 처리 테스트
+  it("should handle IMPORT_STATE and COMMIT", () => {
+    const useStore = createStore<CounterState>(creator, [devtoolsMiddleware()]);
+
+    const nextLiftedState = {
+      computedStates: [{ state: { count: 1 } }, { state: { count: 9 } }],
+    };
+    fake.dispatch({
+      type: "DISPATCH",
+      payload: { type: "IMPORT_STATE", nextLiftedState },
+    });
+    expect(useStore.getState().count).toBe(9);
+    expect(fake.connection.send).toHaveBeenCalledWith(null, nextLiftedState);
+
+    fake.dispatch({ type: "DISPATCH", payload: { type: "COMMIT" } });
+    expect(fake.connection.init).toHaveBeenLastCalledWith(
+      expect.objectContaining({ count: 9 })
+    );
+  });
+
+  // 비활성화 및 해제 테스트
+  it("should not connect when disabled and disconnect on destroy", () => {
+    createStore<CounterState>(creator, [
+      devtoolsMiddleware({ enabled: false }),
+    ]);
+    expect(fake.extension.connect).not.toHaveBeenCalled();
+
+    const useStore = createStore<CounterState>(creator, [devtoolsMiddleware()]);
+    useStore.destroy();
+    expect(fake.connection.unsubscribe).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { webcrypto } from "crypto";
+import { TextDecoder, TextEncoder } from "util";
+import {
+  IntegrityError,
+  checksum,
+  createAESGCMEncryption,
+} from "../src/core/encryption";
+
+// jsdom 환경에 Web Crypto와 TextEncoder 제공 (Node 구현 사용)
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+Object.defineProperty(globalThis, "crypto", {
+  value: webcrypto,
+  configurable: true,
+});
+
+describe("createAESGCMEncryption", () => {
+  // 암호화 왕복 테스트
+  it("should encrypt and decrypt with a passphrase", async () => {
+    const { encrypt, decrypt } = createAESGCMEncryption({ key: "secret" });
+
+    const ciphertext = await encrypt('{"token":"abc"}');
+
+    expect(ciphertext).not.toContain("abc");
+    expect(await decrypt(ciphertext)).toBe('{"token":"abc"}');
+  });
+
+  // 같은 평문도 매번 다른 암호문 생성 (무작위 IV)
+  it("should use a random IV for each encryption", async () => {
+    const { encrypt } = createAESGCMEncryption({ key: "secret" });
+
+    expect(await encrypt("same")).not.toBe(await encrypt("same"));
+  });
+
+  // 변조된 암호문 거부 테스트
+  it("should reject tampered ciphertext", async () => {
+    const { encrypt, decrypt } = createAESGCMEncryption({ key: "secret" });
+    const ciphertext = await encrypt("payload");
+    const bytes = Buffer.from(ciphertext, "base64");
+    bytes[bytes.length - 1] ^= 1;
+
+    await expect(decrypt(bytes.toString("base64"))).rejects.toBeInstanceOf(
+      IntegrityError
+    );
+  });
+
+  // 다른 키로 복호화 거부 테스트
+  it("should reject ciphertext encrypted with another key", async () => {
+    const ciphertext = await createAESGCMEncryption({ key: "a" }).encrypt("x");
+
+    await expect(
+      createAESGCMEncryption({ key: "b" }).decrypt(ciphertext)
+    ).rejects.toBeInstanceOf(IntegrityError);
+  });
+
+  // CryptoKey 직접 전달 테스트
+  it("should accept a CryptoKey", async () => {
+    const key = await webcrypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+    const { encrypt, decrypt } = createAESGCMEncryption({
+      key: key as unknown as CryptoKey,
+    });
+
+    expect(await decrypt(await encrypt("hello"))).toBe("hello");
+  });
+});
+
+describe("checksum", () => {
+  it("should produce a stable 8-digit hash that detects changes", () => {
+    expect(checksum("hello")).toBe(checksum("hello"));
+    expect(checksum("hello")).toHaveLength(8);
+    expect(checksum("hello")).not.toBe(checksum("hellp"));
+  });
+});
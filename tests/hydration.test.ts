@@ -0,0 +1,164 @@
+import React from "react";
+import { createRoot, Root } from "react-dom/client";
+import { act } from "react-dom/test-utils";
+import { createPersistStore } from "../src/core/persist";
+import { persistMiddleware } from "../src/core/persistMiddleware";
+import { createStore } from "../src/core/createStore";
+import { HydrationGate, useHydrated } from "../src/core/hydration";
+import { StateStorage } from "../src/types";
+
+interface SettingsState {
+  theme: string;
+  setTheme: (theme: string) => void;
+}
+
+// React 18 act 환경 설정
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const creator = (set: any) => ({
+  theme: "light",
+  setTheme: (theme: string) => set({ theme }),
+});
+
+// 직접 완료 시점을 정할 수 있는 비동기 저장소
+const createDeferredStorage = (value: string | null) => {
+  let resolve: () => void = () => {};
+  const ready = new Promise<void>((done) => {
+    resolve = done;
+  });
+  const storage: StateStorage = {
+    getItem: () => ready.then(() => value),
+    setItem: () => {},
+    removeItem: () => {},
+  };
+  return { storage, resolve };
+};
+
+const savedValue = JSON.stringify({ state: { theme: "dark" }, version: 0 });
+
+describe("hydration", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  // 하이드레이션 시작/완료 구독 테스트
+  it("should notify onHydrate and onFinishHydration listeners", async () => {
+    const { storage, resolve } = createDeferredStorage(savedValue);
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      skipHydration: true,
+    });
+    const onHydrate = jest.fn();
+    const onFinishHydration = jest.fn();
+    const removed = jest.fn();
+
+    (useStore as any).persist.onHydrate(onHydrate);
+    (useStore as any).persist.onFinishHydration(onFinishHydration);
+    const unsubscribe = (useStore as any).persist.onFinishHydration(removed);
+    unsubscribe();
+
+    const hydration = (useStore as any).persist.rehydrate();
+    expect(onHydrate).toHaveBeenCalledWith(
+      expect.objectContaining({ theme: "light" })
+    );
+    expect(onFinishHydration).not.toHaveBeenCalled();
+
+    resolve();
+    await hydration;
+
+    expect(onFinishHydration).toHaveBeenCalledWith(
+      expect.objectContaining({ theme: "dark" })
+    );
+    expect(removed).not.toHaveBeenCalled();
+  });
+
+  // useHydrated 재렌더링 테스트
+  it("should re-render when hydration finishes", async () => {
+    const { storage, resolve } = createDeferredStorage(savedValue);
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      skipHydration: true,
+    });
+    const renders: boolean[] = [];
+    const Component = () => {
+      renders.push(useHydrated(useStore));
+      return null;
+    };
+
+    act(() => root.render(React.createElement(Component)));
+    expect(renders).toEqual([false]);
+
+    await act(async () => {
+      const hydration = (useStore as any).persist.rehydrate();
+      resolve();
+      await hydration;
+    });
+
+    expect(renders[renders.length - 1]).toBe(true);
+  });
+
+  // HydrationGate 테스트
+  it("should render the fallback until rehydrate finishes", async () => {
+    const { storage, resolve } = createDeferredStorage(savedValue);
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      skipHydration: true,
+    });
+    const Theme = () => React.createElement("span", null, useStore().theme);
+
+    act(() =>
+      root.render(
+        React.createElement(
+          HydrationGate,
+          { store: useStore, fallback: "loading" },
+          React.createElement(Theme)
+        )
+      )
+    );
+    expect(container.textContent).toBe("loading");
+
+    // 게이트가 복원을 시작하고, 완료 후 복원된 상태로 자식 렌더링
+    await act(async () => {
+      resolve();
+      await Promise.resolve();
+    });
+
+    expect(container.textContent).toBe("dark");
+  });
+
+  // persistMiddleware로 만든 스토어의 하이드레이션 상태 테스트
+  it("should track hydration of stores created with persistMiddleware", async () => {
+    const { storage, resolve } = createDeferredStorage(savedValue);
+    const useStore = createStore<SettingsState>(creator, [
+      persistMiddleware({ name: "settings", storage }),
+    ]);
+    const renders: boolean[] = [];
+    const Component = () => {
+      renders.push(useHydrated(useStore));
+      return React.createElement("span", null, useStore().theme);
+    };
+
+    act(() => root.render(React.createElement(Component)));
+    expect(renders).toEqual([false]);
+
+    // 마운트 후 시작된 복원이 끝나면 완료로 다시 렌더링
+    await act(async () => {
+      resolve();
+      await Promise.resolve();
+    });
+
+    expect(renders[renders.length - 1]).toBe(true);
+    expect(container.textContent).toBe("dark");
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  configureLogger,
+  createLogger,
+  Logger,
+  LogEvent,
+} from "../src/core/logger";
+import React from "react";
+import { createRoot } from "react-dom/client";
+import { act } from "react-dom/test-utils";
+import { createVanillaStore } from "../src/core/vanilla";
+import { createPersistStore } from "../src/core/persist";
+
+// React 18 act 환경 설정
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// 이벤트를 기록하는 로거
+const createMemoryLogger = () => {
+  const events: LogEvent[] = [];
+  const record = (event: LogEvent) => {
+    events.push(event);
+  };
+  const logger: Logger = {
+    debug: record,
+    info: record,
+    warn: record,
+    error: record,
+  };
+  return { logger, events };
+};
+
+describe("logger", () => {
+  const originalEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = originalEnv;
+    configureLogger({ logger: undefined, logLevel: undefined });
+  });
+
+  // 기본 로그 수준 테스트
+  it("should print warnings to the console and skip debug logs by default", () => {
+    (console.warn as jest.Mock).mockClear();
+    const logger = createLogger({ name: "settings" });
+
+    logger.debug("디버그");
+    logger.warn("경고");
+
+    expect(console.warn).toHaveBeenCalledWith("[HSC-Store:settings] 경고");
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  // 프로덕션 기본값 테스트
+  it("should be silent by default in production", () => {
+    process.env.NODE_ENV = "production";
+    const { logger, events } = createMemoryLogger();
+    configureLogger({ logger });
+
+    createLogger().error("오류");
+
+    expect(events).toHaveLength(0);
+  });
+
+  // 구조화된 이벤트 테스트
+  it("should pass structured events with the store name and phase", () => {
+    const { logger, events } = createMemoryLogger();
+    const error = new Error("broken");
+
+    createVanillaStore(
+      () => ({ count: 0 }),
+      [
+        () => {
+          throw error;
+        },
+      ],
+      { name: "counter", logger }
+    );
+
+    expect(events).toEqual([
+      {
+        level: "error",
+        message: "미들웨어 적용 오류",
+        store: "counter",
+        phase: "middleware",
+        error,
+        timestamp: expect.any(Number),
+      },
+    ]);
+  });
+
+  // 전역 설정과 스토어별 설정 테스트
+  it("should let per-store options override the global configuration", () => {
+    const global = createMemoryLogger();
+    const local = createMemoryLogger();
+    configureLogger({ logger: global.logger, logLevel: "debug" });
+
+    createLogger({ name: "a" }).debug("전역");
+    createLogger({ name: "b", logger: local.logger, logLevel: "error" }).warn(
+      "무시"
+    );
+
+    expect(global.events.map((event) => event.store)).toEqual(["a"]);
+    expect(local.events).toHaveLength(0);
+  });
+
+  // 영구 저장 오류 기록 테스트
+  it("should log persist write failures with the storage key", () => {
+    const { logger, events } = createMemoryLogger();
+    const useStore = createPersistStore(() => ({ theme: "light" }), {
+      name: "settings",
+      storage: {
+        getItem: () => null,
+        setItem: () => {
+          throw new Error("denied");
+        },
+        removeItem: () => {},
+      },
+      skipHydration: true,
+      logger,
+    });
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    const root = createRoot(document.createElement("div"));
+
+    // 마운트 시 저장이 실패
+    act(() => root.render(React.createElement(Component)));
+    act(() => root.unmount());
+
+    expect(events[0]).toEqual(
+      expect.objectContaining({
+        level: "error",
+        store: "settings",
+        phase: "write",
+        key: "settings",
+      })
+    );
+  });
+});
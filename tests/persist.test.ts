@@ -0,0 +1,1701 @@
+import React from "react";
+import { createRoot, Root } from "react-dom/client";
+import { act } from "react-dom/test-utils";
+import { renderToString } from "react-dom/server";
+import { createPersistStore, persist } from "../src/core/persist";
+import {
+  persistMiddleware,
+  readPersistedCookie,
+} from "../src/core/persistMiddleware";
+import { createStoreContext } from "../src/core/context";
+import { createStore } from "../src/core/createStore";
+import { createVanillaStore } from "../src/core/vanilla";
+import * as persistEngine from "../src/core/persistEngine";
+import {
+  createCookieStorage,
+  createIndexedDBStorage,
+  createJSONStorage,
+  createMemoryStorage,
+  readCookie,
+  QuotaExceededError,
+} from "../src/core/storage";
+import { taggedSerializer } from "../src/core/serializer";
+import { deepMerge } from "../src/core/merge";
+import { MigrationError } from "../src/core/migration";
+import { IntegrityError } from "../src/core/encryption";
+import { PersistOptions, StateStorage, UseStore } from "../src/types";
+import { IDBFactory } from "fake-indexeddb";
+
+interface SettingsState {
+  theme: string;
+  fontSize: number;
+  setTheme: (theme: string) => void;
+}
+
+// React 18 act 환경 설정
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const creator = (set: any) => ({
+  theme: "light",
+  fontSize: 16,
+  setTheme: (theme: string) => set({ theme }),
+});
+
+// 비동기 저장소 목(mock) - 모든 작업이 Promise를 반환
+const createAsyncStorage = (initial: Record<string, string> = {}) => {
+  const data: Record<string, string> = { ...initial };
+  const storage: StateStorage = {
+    getItem: jest.fn(async (name: string) => data[name] ?? null),
+    setItem: jest.fn(async (name: string, value: string) => {
+      data[name] = value;
+    }),
+    removeItem: jest.fn(async (name: string) => {
+      delete data[name];
+    }),
+  };
+  return { storage, data };
+};
+
+// 마이크로태스크 비우기
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("persist", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  // 훅을 사용하는 컴포넌트를 마운트
+  const mount = (useStore: UseStore<SettingsState>) => {
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+  };
+
+  // 동기 저장소 복원 테스트
+  it("should rehydrate from localStorage after mount", async () => {
+    window.localStorage.setItem(
+      "settings",
+      JSON.stringify({ state: { theme: "dark" }, version: 0 })
+    );
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+    });
+
+    mount(useStore);
+    await act(flushPromises);
+
+    expect(useStore.getState().theme).toBe("dark");
+    expect((useStore as any).persist.hasHydrated()).toBe(true);
+  });
+
+  // 비동기 저장소 테스트
+  it("should support async storage and report hydration after completion", async () => {
+    const { storage, data } = createAsyncStorage({
+      settings: JSON.stringify({ state: { fontSize: 20 }, version: 0 }),
+    });
+    const onRehydrateStorage = jest.fn();
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      onRehydrateStorage,
+    });
+
+    mount(useStore);
+    // 복원이 끝나기 전에는 하이드레이션 완료로 표시되지 않음
+    expect((useStore as any).persist.hasHydrated()).toBe(false);
+
+    await act(flushPromises);
+    expect((useStore as any).persist.hasHydrated()).toBe(true);
+    expect(useStore.getState().fontSize).toBe(20);
+    expect(onRehydrateStorage).toHaveBeenCalledWith(
+      expect.objectContaining({ fontSize: 20 })
+    );
+
+    act(() => useStore.getState().setTheme("dark"));
+    await act(flushPromises);
+    expect(JSON.parse(data.settings).state).toEqual({
+      theme: "dark",
+      fontSize: 20,
+    });
+  });
+
+  // 복원 중 저장으로 기존 값을 덮어쓰지 않는지 테스트
+  it("should not overwrite persisted data before async rehydration finishes", async () => {
+    const persisted = JSON.stringify({ state: { theme: "dark" }, version: 0 });
+    const { storage, data } = createAsyncStorage({ settings: persisted });
+    const useStore = persist(createStore<SettingsState>(creator), {
+      name: "settings",
+      storage,
+    });
+
+    mount(useStore);
+    useStore.setState({ fontSize: 12 });
+    expect(storage.setItem).not.toHaveBeenCalled();
+    expect(data.settings).toBe(persisted);
+
+    await act(flushPromises);
+    expect(useStore.getState().theme).toBe("dark");
+  });
+
+  // 변경 감지 시 바뀌지 않은 키는 직렬화하지 않는지 테스트
+  it("should serialize only changed keys when detecting changes", () => {
+    const serialize = jest.fn((value: unknown) => JSON.stringify(value));
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      skipHydration: true,
+      serialize,
+    });
+    mount(useStore);
+    serialize.mockClear();
+
+    // 바뀐 키 비교 2회 + 저장 1회 (theme은 같은 참조이므로 비교하지 않음)
+    act(() => useStore.setState({ fontSize: 20 }));
+    expect(serialize).toHaveBeenCalledTimes(3);
+  });
+
+  // 사용자 정의 직렬화 테스트
+  it("should use the serialize/deserialize options", async () => {
+    interface HistoryState {
+      visitedAt: Date;
+      pages: Set<string>;
+    }
+    const { storage, data } = createAsyncStorage();
+    const options = {
+      name: "history",
+      storage,
+      serialize: taggedSerializer.serialize,
+      deserialize: taggedSerializer.deserialize,
+    };
+    const useHistoryStore = createPersistStore<HistoryState>(
+      () => ({ visitedAt: new Date(0), pages: new Set<string>() }),
+      options
+    );
+
+    const Component = () => {
+      useHistoryStore((state) => state.pages);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+    await act(flushPromises);
+
+    useHistoryStore.setState({
+      visitedAt: new Date("2024-05-01T00:00:00.000Z"),
+      pages: new Set(["/home"]),
+    });
+    await act(flushPromises);
+
+    // 새 스토어에서 복원하면 원래 타입으로 돌아옴
+    const restored = createPersistStore<HistoryState>(
+      () => ({ visitedAt: new Date(0), pages: new Set<string>() }),
+      { ...options, skipHydration: true }
+    );
+    await (restored as any).persist.rehydrate();
+
+    expect(data.history).toContain("Set");
+    expect(restored.getState().visitedAt).toEqual(
+      new Date("2024-05-01T00:00:00.000Z")
+    );
+    expect(restored.getState().pages).toEqual(new Set(["/home"]));
+  });
+
+  // 깊은 병합 테스트 - 중첩 객체에 추가된 새 기본값 유지
+  it("should keep new nested defaults with the deepMerge strategy", async () => {
+    interface PrefsState {
+      prefs: { theme: string; compact: boolean };
+      setCompact: (compact: boolean) => void;
+    }
+    const { storage } = createAsyncStorage({
+      prefs: JSON.stringify({
+        state: { prefs: { theme: "dark" } },
+        version: 0,
+      }),
+    });
+    const useStore = createPersistStore<PrefsState>(
+      (set) => ({
+        prefs: { theme: "light", compact: true },
+        setCompact: (compact) =>
+          set((state) => ({ prefs: { ...state.prefs, compact } })),
+      }),
+      { name: "prefs", storage, merge: deepMerge, skipHydration: true }
+    );
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(useStore.getState().prefs).toEqual({ theme: "dark", compact: true });
+    expect(typeof useStore.getState().setCompact).toBe("function");
+  });
+
+  // 사용자 정의 병합 함수 테스트
+  it("should pass persisted and current state to a custom merge", async () => {
+    const { storage } = createAsyncStorage({
+      settings: JSON.stringify({ state: { fontSize: 30 }, version: 0 }),
+    });
+    const merge = jest.fn((persisted: any, current: SettingsState) => ({
+      ...current,
+      fontSize: Math.min(persisted.fontSize, 24),
+    }));
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      merge,
+      skipHydration: true,
+    });
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(merge).toHaveBeenCalledWith(
+      { fontSize: 30 },
+      expect.objectContaining({ theme: "light", fontSize: 16 })
+    );
+    expect(useStore.getState().fontSize).toBe(24);
+  });
+
+  // 동시 복원 호출 테스트
+  it("should share a single rehydration between concurrent calls", async () => {
+    const { storage } = createAsyncStorage();
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      skipHydration: true,
+    });
+
+    const api = (useStore as any).persist;
+    await Promise.all([api.rehydrate(), api.rehydrate()]);
+    expect(storage.getItem).toHaveBeenCalledTimes(1);
+    expect(api.hasHydrated()).toBe(true);
+  });
+
+  // createStore 미들웨어 배열에서 사용 테스트
+  it("should persist and rehydrate through persistMiddleware", async () => {
+    window.localStorage.setItem(
+      "settings",
+      JSON.stringify({ state: { fontSize: 20 }, version: 0 })
+    );
+    const useStore = createStore<SettingsState>(creator, [
+      persistMiddleware<SettingsState>({ name: "settings" }),
+    ]);
+
+    mount(useStore);
+    await act(flushPromises);
+    expect(useStore.getState().fontSize).toBe(20);
+    expect((useStore.getState() as any)._persist.hasHydrated()).toBe(true);
+
+    act(() => useStore.getState().setTheme("dark"));
+    expect(JSON.parse(window.localStorage.getItem("settings")!).state).toEqual({
+      theme: "dark",
+      fontSize: 20,
+    });
+  });
+
+  // React 없이 사용하는 스토어는 mount 호출 후 복원/저장하는지 테스트
+  it("should rehydrate and persist a vanilla store after mount()", async () => {
+    window.localStorage.setItem(
+      "settings",
+      JSON.stringify({ state: { fontSize: 20 }, version: 0 })
+    );
+    const store = createVanillaStore<SettingsState>(creator, [
+      persistMiddleware<SettingsState>({ name: "settings" }),
+    ]);
+
+    // 마운트 전에는 복원하지 않음
+    await flushPromises();
+    expect(store.getState().fontSize).toBe(16);
+
+    store.mount();
+    await flushPromises();
+    expect(store.getState().fontSize).toBe(20);
+
+    store.getState().setTheme("dark");
+    expect(JSON.parse(window.localStorage.getItem("settings")!).state).toEqual({
+      theme: "dark",
+      fontSize: 20,
+    });
+    store.destroy();
+  });
+
+  // 기존 스토어에 적용한 경우도 액션 내부의 set을 저장하는지 테스트
+  it("should persist action updates on a store wrapped with persist", async () => {
+    const useStore = persist(createStore<SettingsState>(creator), {
+      name: "settings",
+    });
+
+    mount(useStore);
+    await act(flushPromises);
+    act(() => useStore.getState().setTheme("dark"));
+
+    expect(
+      JSON.parse(window.localStorage.getItem("settings")!).state.theme
+    ).toBe("dark");
+    expect((useStore as any).persist).toBe(
+      (useStore.getState() as any)._persist
+    );
+
+    // 전체 초기화 후에도 persist API 유지
+    const api = (useStore as any).persist;
+    act(() => useStore.reset());
+    expect(useStore.getState().theme).toBe("light");
+    expect((useStore.getState() as any)._persist).toBe(api);
+  });
+
+  // 사용자 정의 partialize가 _persist를 제외하지 않아도 저장/복원하지 않는지 테스트
+  it("should never persist or restore the _persist api", async () => {
+    window.localStorage.setItem(
+      "settings",
+      JSON.stringify({ state: { fontSize: 20, _persist: {} }, version: 0 })
+    );
+    const useStore = createStore<SettingsState>(creator, [
+      persistMiddleware<SettingsState>({
+        name: "settings",
+        partialize: (state) => ({ ...state }),
+      }),
+    ]);
+    const api = (useStore.getState() as any)._persist;
+
+    mount(useStore);
+    await act(flushPromises);
+    expect(useStore.getState().fontSize).toBe(20);
+    expect((useStore.getState() as any)._persist).toBe(api);
+
+    act(() => useStore.getState().setTheme("dark"));
+    expect(
+      JSON.parse(window.localStorage.getItem("settings")!).state
+    ).not.toHaveProperty("_persist");
+  });
+});
+
+describe("createJSONStorage", () => {
+  it("should return undefined when the backend is not accessible", () => {
+    expect(createJSONStorage(() => undefined)).toBeUndefined();
+    expect(
+      createJSONStorage(() => {
+        throw new Error("SecurityError");
+      })
+    ).toBeUndefined();
+  });
+
+  it("should delegate to the backend storage", () => {
+    const storage = createJSONStorage(() => window.localStorage)!;
+    storage.setItem("key", "value");
+    expect(storage.getItem("key")).toBe("value");
+    storage.removeItem("key");
+    expect(window.localStorage.getItem("key")).toBeNull();
+  });
+});
+
+describe("createMemoryStorage", () => {
+  it("should keep values in memory", () => {
+    const storage = createMemoryStorage();
+    storage.setItem("key", "value");
+    expect(storage.getItem("key")).toBe("value");
+    storage.removeItem("key");
+    expect(storage.getItem("key")).toBeNull();
+  });
+});
+
+describe("createIndexedDBStorage", () => {
+  beforeEach(() => {
+    (globalThis as any).indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).indexedDB;
+  });
+
+  it("should store values in IndexedDB", async () => {
+    const storage = createIndexedDBStorage();
+    await storage.setItem("key", "value");
+    expect(await storage.getItem("key")).toBe("value");
+    await storage.removeItem("key");
+    expect(await storage.getItem("key")).toBeNull();
+  });
+
+  // 같은 데이터베이스에 다른 오브젝트 스토어를 사용하는 저장소 테스트
+  it("should create a missing object store in an existing database", async () => {
+    const first = createIndexedDBStorage({ storeName: "first" });
+    await first.setItem("key", "first");
+
+    const second = createIndexedDBStorage({ storeName: "second" });
+    await second.setItem("key", "second");
+
+    // 버전이 올라가 닫힌 첫 번째 저장소의 연결도 다시 열림
+    expect(await first.getItem("key")).toBe("first");
+    expect(await second.getItem("key")).toBe("second");
+  });
+
+  // 버전이 이미 올라간 데이터베이스를 여는 새 저장소 테스트
+  it("should open a database upgraded by another storage", async () => {
+    await createIndexedDBStorage({ storeName: "a" }).setItem("key", "a");
+    await createIndexedDBStorage({ storeName: "b" }).setItem("key", "b");
+
+    const reopened = createIndexedDBStorage({ storeName: "a" });
+    expect(await reopened.getItem("key")).toBe("a");
+  });
+});
+
+describe("cross-tab sync", () => {
+  // 같은 프로세스 안에서 메시지를 주고받는 BroadcastChannel 목(mock)
+  class FakeBroadcastChannel {
+    static channels: FakeBroadcastChannel[] = [];
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+    closed = false;
+
+    constructor(public name: string) {
+      FakeBroadcastChannel.channels.push(this);
+    }
+
+    postMessage(data: unknown) {
+      FakeBroadcastChannel.channels.forEach((channel) => {
+        if (channel !== this && !channel.closed && channel.name === this.name) {
+          channel.onmessage?.({ data });
+        }
+      });
+    }
+
+    close() {
+      this.closed = true;
+    }
+  }
+
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    (globalThis as any).BroadcastChannel = FakeBroadcastChannel;
+    FakeBroadcastChannel.channels = [];
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    delete (globalThis as any).BroadcastChannel;
+  });
+
+  // 여러 스토어 훅을 한 컴포넌트에서 마운트
+  const mountAll = (stores: UseStore<SettingsState>[]) => {
+    const Component = () => {
+      stores.forEach((useStore) => useStore((state) => state.theme));
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+  };
+
+  // BroadcastChannel 동기화 테스트
+  it("should apply changes from another tab without writing them back", async () => {
+    const { storage } = createAsyncStorage();
+    const tabA = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      sync: "broadcast-channel",
+    });
+    const tabB = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      sync: "broadcast-channel",
+    });
+
+    mountAll([tabA, tabB]);
+    await act(flushPromises);
+    (storage.setItem as jest.Mock).mockClear();
+
+    act(() => tabA.getState().setTheme("dark"));
+    await act(flushPromises);
+
+    expect(tabB.getState().theme).toBe("dark");
+    // 변경을 만든 탭만 저장
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+  });
+
+  // storage 이벤트 동기화 테스트
+  it("should rehydrate the changed slice on storage events", () => {
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      sync: "storage-event",
+    });
+    const setItemSpy = jest.spyOn(window.localStorage, "setItem");
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: "settings",
+        newValue: JSON.stringify({ state: { fontSize: 24 }, version: 0 }),
+      })
+    );
+
+    expect(useStore.getState().fontSize).toBe(24);
+    expect(useStore.getState().theme).toBe("light");
+    expect(setItemSpy).not.toHaveBeenCalled();
+    setItemSpy.mockRestore();
+  });
+
+  // last-writer-wins 충돌 해결 테스트
+  it("should ignore remote changes older than the last local write", async () => {
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      sync: true,
+      skipHydration: true,
+    });
+    const remote = new FakeBroadcastChannel("hsc-store:settings");
+
+    mountAll([useStore]);
+    act(() => useStore.getState().setTheme("dark"));
+
+    remote.postMessage({
+      value: JSON.stringify({ state: { theme: "blue" }, version: 0 }),
+      savedAt: Date.now() - 1000,
+    });
+    expect(useStore.getState().theme).toBe("dark");
+
+    remote.postMessage({
+      value: JSON.stringify({ state: { theme: "blue" }, version: 0 }),
+      savedAt: Date.now() + 1000,
+    });
+    expect(useStore.getState().theme).toBe("blue");
+  });
+
+  // storage 이벤트의 충돌 해결은 저장된 값의 기록 시각 기준
+  it("should compare the stored savedAt of storage events with the last local write", () => {
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      sync: "storage-event",
+      skipHydration: true,
+    });
+
+    mountAll([useStore]);
+    act(() => useStore.getState().setTheme("dark"));
+
+    // 늦게 도착했지만 로컬 저장보다 먼저 기록된 변경
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: "settings",
+        newValue: JSON.stringify({
+          state: { theme: "blue" },
+          version: 0,
+          savedAt: Date.now() - 1000,
+        }),
+      })
+    );
+    expect(useStore.getState().theme).toBe("dark");
+
+    window.dispatchEvent(
+      new StorageEvent("storage", {
+        key: "settings",
+        newValue: JSON.stringify({
+          state: { theme: "blue" },
+          version: 0,
+          savedAt: Date.now() + 1000,
+        }),
+      })
+    );
+    expect(useStore.getState().theme).toBe("blue");
+  });
+
+  // 지연 저장 중에도 다른 탭의 변경을 다시 저장하지 않는지 테스트
+  it("should not echo remote changes back with a debounced write strategy", () => {
+    jest.useFakeTimers("modern");
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      sync: "storage-event",
+      skipHydration: true,
+      writeStrategy: { debounceMs: 300 },
+    });
+    mountAll([useStore]);
+    const setItemSpy = jest.spyOn(window.localStorage, "setItem");
+
+    // 원격 변경 후 타이머가 지나도 저장하지 않음
+    const remoteChange = (state: Partial<SettingsState>) =>
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "settings",
+          newValue: JSON.stringify({ state, version: 0, savedAt: Date.now() }),
+        })
+      );
+    remoteChange({ theme: "blue" });
+    jest.advanceTimersByTime(1000);
+    expect(useStore.getState().theme).toBe("blue");
+    expect(setItemSpy).not.toHaveBeenCalled();
+
+    // 대기 중인 로컬 변경은 원격 변경이 반영된 상태로 저장
+    act(() => useStore.getState().setTheme("dark"));
+    jest.advanceTimersByTime(100);
+    remoteChange({ fontSize: 24 });
+    jest.advanceTimersByTime(1000);
+    expect(setItemSpy).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(window.localStorage.getItem("settings")!).state).toEqual({
+      theme: "dark",
+      fontSize: 24,
+    });
+
+    setItemSpy.mockRestore();
+    jest.useRealTimers();
+  });
+
+  // 사용자 정의 병합 정책 테스트
+  it("should resolve conflicts with a custom merge function", () => {
+    const syncConflict = jest.fn(
+      (remote: Partial<SettingsState>, local: SettingsState) => ({
+        fontSize: Math.max(remote.fontSize ?? 0, local.fontSize),
+      })
+    );
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      sync: "broadcast-channel",
+      syncConflict,
+    });
+    const remote = new FakeBroadcastChannel("hsc-store:settings");
+
+    remote.postMessage({
+      value: JSON.stringify({
+        state: { theme: "dark", fontSize: 12 },
+        version: 0,
+      }),
+      savedAt: Date.now(),
+    });
+
+    expect(syncConflict).toHaveBeenCalled();
+    expect(useStore.getState().fontSize).toBe(16);
+    expect(useStore.getState().theme).toBe("light");
+  });
+
+  // 스토어 해제 시 채널 정리 테스트
+  it("should close the sync channel when the store is destroyed", () => {
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      sync: "broadcast-channel",
+    });
+    const [channel] = FakeBroadcastChannel.channels;
+
+    useStore.destroy();
+    expect(channel.closed).toBe(true);
+  });
+});
+
+describe("writeStrategy", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let stores: UseStore<SettingsState>[] = [];
+
+  beforeEach(() => {
+    jest.useFakeTimers("modern");
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    stores.forEach((useStore) => useStore.destroy());
+    stores = [];
+    jest.useRealTimers();
+  });
+
+  // 마운트 후 복원 없이 바로 저장 가능한 스토어 생성
+  const setup = (
+    writeStrategy: PersistOptions<SettingsState>["writeStrategy"]
+  ) => {
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      skipHydration: true,
+      writeStrategy,
+    });
+    stores.push(useStore);
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+
+    const setItemSpy = jest.spyOn(window.localStorage, "setItem");
+    return { useStore, setItemSpy };
+  };
+
+  // 저장된 theme 값 읽기
+  const savedTheme = () =>
+    JSON.parse(window.localStorage.getItem("settings")!).state.theme;
+
+  // 기본 동작에서 변경 한 번에 저장도 한 번만 실행되는지 테스트
+  it("should write once per change without a strategy", () => {
+    const { useStore, setItemSpy } = setup(undefined);
+
+    useStore.setState({ theme: "dark" });
+    jest.runAllTimers();
+
+    expect(setItemSpy).toHaveBeenCalledTimes(1);
+    setItemSpy.mockRestore();
+  });
+
+  // debounce 테스트
+  it("should debounce writes and store only the latest state", () => {
+    const { useStore, setItemSpy } = setup({ debounceMs: 300 });
+
+    useStore.setState({ theme: "a" });
+    jest.advanceTimersByTime(200);
+    useStore.getState().setTheme("b");
+    jest.advanceTimersByTime(200);
+    expect(setItemSpy).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(setItemSpy).toHaveBeenCalledTimes(1);
+    expect(savedTheme()).toBe("b");
+    setItemSpy.mockRestore();
+  });
+
+  // throttle 테스트
+  it("should throttle writes to at most one per interval", () => {
+    const { useStore, setItemSpy } = setup({ throttleMs: 1000 });
+
+    useStore.setState({ theme: "a" });
+    useStore.setState({ theme: "b" });
+    useStore.setState({ theme: "c" });
+    // 마운트 시 저장한 직후이므로 다음 주기까지 대기
+    expect(setItemSpy).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    expect(setItemSpy).toHaveBeenCalledTimes(1);
+    expect(savedTheme()).toBe("c");
+
+    useStore.setState({ theme: "d" });
+    jest.advanceTimersByTime(999);
+    expect(setItemSpy).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    expect(setItemSpy).toHaveBeenCalledTimes(2);
+    setItemSpy.mockRestore();
+  });
+
+  // debounce + throttle 조합 테스트 - 연속 입력 중에도 최대 대기 시간마다 저장
+  it("should cap the debounce wait with throttleMs", () => {
+    const { useStore, setItemSpy } = setup({
+      debounceMs: 300,
+      throttleMs: 500,
+    });
+
+    ["a", "b", "c"].forEach((theme) => {
+      useStore.setState({ theme });
+      jest.advanceTimersByTime(200);
+    });
+
+    expect(setItemSpy).toHaveBeenCalledTimes(1);
+    expect(savedTheme()).toBe("c");
+    setItemSpy.mockRestore();
+  });
+
+  // 명시적 flush와 페이지 이탈 시 flush 테스트
+  it("should flush pending writes on demand and on pagehide", () => {
+    const { useStore, setItemSpy } = setup({ debounceMs: 1000 });
+
+    useStore.setState({ theme: "dark" });
+    (useStore as any).persist.flush();
+    expect(savedTheme()).toBe("dark");
+
+    useStore.setState({ theme: "blue" });
+    window.dispatchEvent(new Event("pagehide"));
+    expect(savedTheme()).toBe("blue");
+
+    jest.runAllTimers();
+    expect(setItemSpy).toHaveBeenCalledTimes(2);
+    setItemSpy.mockRestore();
+  });
+
+  // 스토어 해제 시 대기 중인 저장 실행 테스트
+  it("should flush pending writes when the store is destroyed", () => {
+    const { useStore } = setup({ debounceMs: 1000 });
+
+    useStore.setState({ theme: "dark" });
+    useStore.destroy();
+    expect(savedTheme()).toBe("dark");
+  });
+});
+
+describe("deepMerge", () => {
+  // 중첩 객체 병합 테스트
+  it("should merge nested plain objects and replace other values", () => {
+    const current = {
+      a: { b: 1, c: { d: 2, e: 3 } },
+      list: [1, 2, 3],
+      date: new Date(0),
+    };
+    const persisted = { a: { c: { d: 20 } }, list: [9], date: new Date(1) };
+
+    expect(deepMerge(persisted, current)).toEqual({
+      a: { b: 1, c: { d: 20, e: 3 } },
+      list: [9],
+      date: new Date(1),
+    });
+  });
+
+  // 액션 유지 테스트
+  it("should never overwrite actions from the current state", () => {
+    const action = () => {};
+    const merged = deepMerge({ action: "stale" }, { action });
+
+    expect(merged.action).toBe(action);
+  });
+});
+
+describe("migrations", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  // 저장된 데이터를 가진 비동기 저장소와 스토어 생성
+  const setup = (
+    persisted: { state: unknown; version: number },
+    options: Partial<PersistOptions<SettingsState>>
+  ) => {
+    const { storage, data } = createAsyncStorage({
+      settings: JSON.stringify(persisted),
+    });
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      skipHydration: true,
+      ...options,
+    });
+    return { useStore, storage, data };
+  };
+
+  // 순차 마이그레이션 테스트 - 비동기 마이그레이션 포함
+  it("should run migrations sequentially from the stored version", async () => {
+    const calls: number[] = [];
+    const { useStore } = setup(
+      { state: { color: "dark" }, version: 1 },
+      {
+        version: 3,
+        migrations: {
+          1: () => {
+            throw new Error("이미 적용된 버전은 실행되지 않아야 함");
+          },
+          2: (state) => {
+            calls.push(2);
+            return { theme: state.color };
+          },
+          3: async (state) => {
+            calls.push(3);
+            return { ...state, fontSize: 18 };
+          },
+          4: () => {
+            throw new Error("현재 버전 이후는 실행되지 않아야 함");
+          },
+        },
+      }
+    );
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(calls).toEqual([2, 3]);
+    expect(useStore.getState().theme).toBe("dark");
+    expect(useStore.getState().fontSize).toBe(18);
+  });
+
+  // 다운그레이드 거부 테스트
+  it("should refuse to downgrade and keep the newer persisted data", async () => {
+    const onMigrationError = jest.fn();
+    const persisted = { state: { theme: "dark" }, version: 5 };
+    const { useStore, data } = setup(persisted, {
+      version: 2,
+      migrations: { 2: (state) => state },
+      onMigrationError,
+      skipHydration: false,
+    });
+
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    // 마운트 시 자동 복원
+    act(() => root.render(React.createElement(Component)));
+    await act(flushPromises);
+
+    const error = onMigrationError.mock.calls[0][0];
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.fromVersion).toBe(5);
+    expect(error.toVersion).toBe(2);
+    expect(useStore.getState().theme).toBe("light");
+
+    // 이후 저장으로 최신 데이터를 덮어쓰지 않음
+    act(() => useStore.getState().setTheme("blue"));
+    (useStore as any).persist.forceSave();
+    await act(flushPromises);
+    expect(JSON.parse(data.settings)).toEqual(persisted);
+  });
+
+  // 마이그레이션 함수 오류 테스트
+  it("should report the failing step through onMigrationError", async () => {
+    const onMigrationError = jest.fn();
+    const onRehydrateStorage = jest.fn();
+    const cause = new Error("bad data");
+    const { useStore } = setup(
+      { state: { theme: "dark" }, version: 0 },
+      {
+        version: 2,
+        migrations: {
+          1: (state) => state,
+          2: async () => {
+            throw cause;
+          },
+        },
+        onMigrationError,
+        onRehydrateStorage,
+      }
+    );
+
+    await (useStore as any).persist.rehydrate();
+
+    const error: MigrationError = onMigrationError.mock.calls[0][0];
+    expect(error.failedVersion).toBe(2);
+    expect(error.cause).toBe(cause);
+    expect(onRehydrateStorage).toHaveBeenCalledWith(undefined, error);
+    expect((useStore as any).persist.hasHydrated()).toBe(true);
+  });
+});
+
+describe("ttl", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    jest.useFakeTimers("modern");
+    jest.setSystemTime(new Date("2024-01-10T00:00:00.000Z"));
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    jest.useRealTimers();
+  });
+
+  // 저장된 데이터를 가진 스토어 생성
+  const setup = (
+    persisted: Record<string, unknown> | null,
+    ttl: PersistOptions<SettingsState>["ttl"]
+  ) => {
+    const { storage, data } = createAsyncStorage(
+      persisted ? { settings: JSON.stringify(persisted) } : {}
+    );
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      ttl,
+      skipHydration: true,
+    });
+    return { useStore, storage, data };
+  };
+
+  // 저장 시각 기록 테스트
+  it("should stamp writes with savedAt and expose getSavedAt", async () => {
+    const { useStore, data } = setup(null, DAY);
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+    await act(() => Promise.resolve());
+
+    const savedAt = Date.now();
+    expect(JSON.parse(data.settings).savedAt).toBe(savedAt);
+    expect((useStore as any).persist.getSavedAt()).toBe(savedAt);
+
+    // 같은 값을 다시 저장해도 저장 시각은 유지
+    jest.advanceTimersByTime(1000);
+    (useStore as any).persist.forceSave();
+    expect((useStore as any).persist.getSavedAt()).toBe(savedAt);
+
+    // 값이 바뀌면 새 시각으로 기록
+    act(() => useStore.getState().setTheme("dark"));
+    expect((useStore as any).persist.getSavedAt()).toBe(savedAt + 1000);
+  });
+
+  // 스토어 전체 만료 테스트
+  it("should discard the whole state after the store-wide ttl", async () => {
+    const { useStore, storage, data } = setup(
+      {
+        state: { theme: "dark" },
+        version: 0,
+        savedAt: Date.now() - DAY - 1,
+      },
+      DAY
+    );
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(useStore.getState().theme).toBe("light");
+    expect(storage.removeItem).toHaveBeenCalledWith("settings");
+    expect(data.settings).toBeUndefined();
+    expect((useStore as any).persist.getSavedAt()).toBeNull();
+  });
+
+  // 만료 전 데이터 복원 테스트
+  it("should restore state that has not expired", async () => {
+    const savedAt = Date.now() - DAY + 1;
+    const { useStore } = setup(
+      { state: { theme: "dark" }, version: 0, savedAt },
+      DAY
+    );
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(useStore.getState().theme).toBe("dark");
+    expect((useStore as any).persist.getSavedAt()).toBe(savedAt);
+  });
+
+  // 키별 만료 테스트
+  it("should evict only expired keys with per-key ttl", async () => {
+    const now = Date.now();
+    const { useStore } = setup(
+      {
+        state: { theme: "dark", fontSize: 20 },
+        version: 0,
+        savedAt: now - 1000,
+        keySavedAt: { theme: now - 1000, fontSize: now - 2 * DAY },
+      },
+      { fontSize: DAY }
+    );
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(useStore.getState().theme).toBe("dark");
+    expect(useStore.getState().fontSize).toBe(16);
+  });
+
+  // 타임스탬프가 없는 기존 데이터 테스트
+  it("should keep legacy data without a timestamp", async () => {
+    const { useStore } = setup({ state: { theme: "dark" }, version: 0 }, DAY);
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(useStore.getState().theme).toBe("dark");
+  });
+});
+
+describe("encryption", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  // 테스트용 비동기 암호화 (문자열 뒤집기 + Base64)
+  const encrypt = async (text: string) =>
+    btoa(encodeURIComponent(text).split("").reverse().join(""));
+  const decrypt = async (text: string) =>
+    decodeURIComponent(atob(text).split("").reverse().join(""));
+
+  // 암호화 저장 및 복원 테스트
+  it("should encrypt writes and decrypt them on rehydrate", async () => {
+    const { storage, data } = createAsyncStorage();
+    const options = { name: "settings", storage, encrypt, decrypt };
+    const useStore = createPersistStore<SettingsState>(creator, {
+      ...options,
+      skipHydration: true,
+    });
+
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+    act(() => useStore.getState().setTheme("dark"));
+    await act(flushPromises);
+
+    expect(data.settings).not.toContain("dark");
+    // 복호화한 내용에는 체크섬이 포함됨
+    expect(await decrypt(data.settings)).toMatch(/^[0-9a-f]{8}:/);
+
+    const restored = createPersistStore<SettingsState>(creator, {
+      ...options,
+      skipHydration: true,
+    });
+    await (restored as any).persist.rehydrate();
+    expect(restored.getState().theme).toBe("dark");
+  });
+
+  // 체크섬 불일치 테스트
+  it("should reject payloads whose checksum does not match", async () => {
+    const { storage } = createAsyncStorage({
+      settings: await encrypt(
+        '00000000:{"state":{"theme":"dark"},"version":0}'
+      ),
+    });
+    const onRehydrateStorage = jest.fn();
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      encrypt,
+      decrypt,
+      onRehydrateStorage,
+      skipHydration: true,
+    });
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(useStore.getState().theme).toBe("light");
+    expect(onRehydrateStorage).toHaveBeenCalledWith(
+      undefined,
+      expect.any(IntegrityError)
+    );
+  });
+
+  // 복호화 실패 테스트
+  it("should report decryption failures as IntegrityError", async () => {
+    const cause = new Error("bad key");
+    const { storage } = createAsyncStorage({ settings: "garbage" });
+    const onRehydrateStorage = jest.fn();
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      encrypt,
+      decrypt: async () => {
+        throw cause;
+      },
+      onRehydrateStorage,
+      skipHydration: true,
+    });
+
+    await (useStore as any).persist.rehydrate();
+
+    const error: IntegrityError = onRehydrateStorage.mock.calls[0][1];
+    expect(error).toBeInstanceOf(IntegrityError);
+    expect(error.cause).toBe(cause);
+  });
+
+  // 암호화 없이 체크섬만 사용하는 테스트
+  it("should detect corrupted plaintext payloads with integrity enabled", async () => {
+    const { storage, data } = createAsyncStorage();
+    const options = { name: "settings", storage, integrity: true };
+    const useStore = createPersistStore<SettingsState>(creator, {
+      ...options,
+      skipHydration: true,
+    });
+
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+    await act(flushPromises);
+
+    data.settings = data.settings.replace("light", "hacked");
+    const onRehydrateStorage = jest.fn();
+    const restored = createPersistStore<SettingsState>(creator, {
+      ...options,
+      onRehydrateStorage,
+      skipHydration: true,
+    });
+    await (restored as any).persist.rehydrate();
+
+    expect(restored.getState().theme).toBe("light");
+    expect(onRehydrateStorage).toHaveBeenCalledWith(
+      undefined,
+      expect.any(IntegrityError)
+    );
+  });
+});
+
+describe("compression", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  // 압축 저장 및 복원 테스트
+  it("should write compressed payloads and restore them", async () => {
+    const { storage, data } = createAsyncStorage();
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      compress: true,
+      skipHydration: true,
+    });
+
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+    act(() => useStore.getState().setTheme("dark"));
+    await act(flushPromises);
+
+    expect(data.settings.startsWith("lz:")).toBe(true);
+
+    const restored = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      skipHydration: true,
+    });
+    await (restored as any).persist.rehydrate();
+    expect(restored.getState().theme).toBe("dark");
+  });
+
+  // 압축하지 않은 기존 데이터 복원 테스트
+  it("should still read legacy uncompressed payloads", async () => {
+    const { storage } = createAsyncStorage({
+      settings: JSON.stringify({ state: { theme: "dark" }, version: 0 }),
+    });
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      compress: true,
+      skipHydration: true,
+    });
+
+    await (useStore as any).persist.rehydrate();
+    expect(useStore.getState().theme).toBe("dark");
+  });
+});
+
+describe("storage failures", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  // 용량 초과 예외를 던지는 저장소
+  const createFullStorage = () => {
+    const data: Record<string, string> = {};
+    const state = { isFull: true };
+    const storage: StateStorage = {
+      getItem: (name) => data[name] ?? null,
+      setItem: jest.fn((name: string, value: string) => {
+        if (state.isFull) {
+          throw Object.assign(new Error("quota"), {
+            name: "QuotaExceededError",
+            code: 22,
+          });
+        }
+        data[name] = value;
+      }),
+      removeItem: (name) => {
+        delete data[name];
+      },
+    };
+    return { storage, data, state };
+  };
+
+  // 마운트 후 저장 가능한 스토어 생성
+  const setup = (options: Partial<PersistOptions<SettingsState>>) => {
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      skipHydration: true,
+      ...options,
+    });
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+    return useStore;
+  };
+
+  // 용량 초과 시 정리 후 재시도 테스트
+  it("should retry once after onQuotaExceeded frees space", () => {
+    const { storage, data, state } = createFullStorage();
+    const onError = jest.fn();
+    const onQuotaExceeded = jest.fn(() => {
+      state.isFull = false;
+    });
+
+    setup({ storage, onError, onQuotaExceeded });
+
+    expect(onQuotaExceeded).toHaveBeenCalledWith(
+      expect.any(QuotaExceededError)
+    );
+    expect(storage.setItem).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(data.settings).state.theme).toBe("light");
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  // 정리 후에도 실패하면 메모리 저장소로 전환 테스트
+  it("should report write errors and fall back to memory storage", async () => {
+    const { storage } = createFullStorage();
+    const onError = jest.fn();
+
+    const useStore = setup({ storage, onError, onQuotaExceeded: () => {} });
+
+    expect(onError).toHaveBeenCalledWith({
+      phase: "write",
+      error: expect.any(QuotaExceededError),
+    });
+    expect((useStore as any).persist.isFallbackStorage()).toBe(true);
+
+    // 이후 저장은 메모리 저장소로 계속 동작
+    act(() => useStore.getState().setTheme("dark"));
+    expect(storage.setItem).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  // 읽기 실패 테스트
+  it("should report read errors and keep working in memory", async () => {
+    const securityError = Object.assign(new Error("denied"), {
+      name: "SecurityError",
+    });
+    const onError = jest.fn();
+    const onRehydrateStorage = jest.fn();
+    const storage: StateStorage = {
+      getItem: () => {
+        throw securityError;
+      },
+      setItem: jest.fn(),
+      removeItem: jest.fn(),
+    };
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      onError,
+      onRehydrateStorage,
+      skipHydration: true,
+    });
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(onError).toHaveBeenCalledWith({
+      phase: "read",
+      error: securityError,
+    });
+    expect(onRehydrateStorage).toHaveBeenCalledWith(undefined);
+    expect((useStore as any).persist.isFallbackStorage()).toBe(true);
+  });
+
+  // 마이그레이션 오류 단계 테스트
+  it("should report migration errors with the migrate phase", async () => {
+    const onError = jest.fn();
+    const { storage } = createAsyncStorage({
+      settings: JSON.stringify({ state: {}, version: 9 }),
+    });
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      version: 1,
+      migrations: {},
+      onError,
+      skipHydration: true,
+    });
+
+    await (useStore as any).persist.rehydrate();
+
+    expect(onError).toHaveBeenCalledWith({
+      phase: "migrate",
+      error: expect.any(MigrationError),
+    });
+  });
+
+  // 저장소를 사용할 수 없는 환경 테스트
+  it("should use memory storage when no storage is available", () => {
+    // localStorage 접근이 차단된 환경 (Safari 사생활 보호 모드 등)
+    const spy = jest
+      .spyOn(persistEngine, "getDefaultStorage")
+      .mockReturnValue(undefined);
+    const useStore = setup({});
+    spy.mockRestore();
+
+    expect((useStore as any).persist.isFallbackStorage()).toBe(true);
+    expect(() => act(() => useStore.getState().setTheme("dark"))).not.toThrow();
+  });
+});
+
+describe("cookie storage", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  // 저장된 쿠키 문자열 생성
+  const toCookie = (state: Partial<SettingsState>) =>
+    `settings=${encodeURIComponent(JSON.stringify({ state, version: 0 }))}`;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    document.cookie = "settings=; Path=/; Max-Age=0";
+  });
+
+  // 쿠키 읽기/쓰기/삭제 테스트
+  it("should read, write and remove values in document.cookie", () => {
+    const storage = createCookieStorage();
+
+    storage.setItem("settings", '{"theme":"dark; bold"}');
+    expect(storage.getItem("settings")).toBe('{"theme":"dark; bold"}');
+
+    storage.removeItem("settings");
+    expect(storage.getItem("settings")).toBeNull();
+  });
+
+  // Cookie 헤더 파싱 테스트
+  it("should read a value from a Cookie header", () => {
+    const header = `session=abc; ${toCookie({ theme: "dark" })}; other=1`;
+
+    expect(JSON.parse(readCookie(header, "settings")!).state.theme).toBe(
+      "dark"
+    );
+    expect(readCookie(header, "missing")).toBeNull();
+    expect(readCookie(undefined, "settings")).toBeNull();
+  });
+
+  // 쿠키 크기 제한 테스트
+  it("should throw QuotaExceededError for values over the cookie size limit", () => {
+    const storage = createCookieStorage();
+
+    expect(() => storage.setItem("settings", "x".repeat(5000))).toThrow(
+      QuotaExceededError
+    );
+  });
+
+  // 첫 렌더링 전 복원 테스트
+  it("should hydrate from the cookie before the first render", () => {
+    document.cookie = `${toCookie({ theme: "dark" })}; Path=/`;
+
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage: createCookieStorage(),
+    });
+
+    // 마운트 전에 이미 쿠키 값이 반영되어 있음
+    expect(useStore.getState().theme).toBe("dark");
+    expect((useStore as any).persist.hasHydrated()).toBe(true);
+
+    const renders: string[] = [];
+    const Component = () => {
+      renders.push(useStore((state) => state.theme));
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+
+    expect(renders).toEqual(["dark"]);
+
+    // 변경 사항은 쿠키에 저장
+    act(() => useStore.getState().setTheme("blue"));
+    expect(
+      JSON.parse(readCookie(document.cookie, "settings")!).state.theme
+    ).toBe("blue");
+  });
+
+  // 쿠키에서 복원한 스토어의 초기화 테스트
+  it("should reset a cookie-backed store to the creator defaults", () => {
+    document.cookie = `${toCookie({ theme: "dark" })}; Path=/`;
+
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage: createCookieStorage(),
+    });
+    expect(useStore.getState().theme).toBe("dark");
+    expect(useStore.getInitialState().theme).toBe("light");
+
+    useStore.setState({ theme: "blue" });
+    useStore.reset();
+    expect(useStore.getState().theme).toBe("light");
+    expect(typeof (useStore.getState() as any)._persist.rehydrate).toBe(
+      "function"
+    );
+  });
+
+  // Cookie 헤더에서 스토어 없이 상태 읽기 테스트
+  it("should read the migrated state from a Cookie header", () => {
+    const onError = jest.fn();
+    const options: PersistOptions<SettingsState> = {
+      name: "settings",
+      version: 1,
+      migrate: (state: any) => ({ ...state, fontSize: 20 }),
+      onError,
+    };
+
+    expect(
+      readPersistedCookie(
+        `session=abc; ${toCookie({ theme: "dark" })}`,
+        options
+      )
+    ).toEqual({ theme: "dark", fontSize: 20 });
+    expect(readPersistedCookie("session=abc", options)).toBeNull();
+    expect(readPersistedCookie(undefined, options)).toBeNull();
+
+    // 읽을 수 없는 값은 오류를 보고하고 null 반환
+    expect(readPersistedCookie("settings=%7Bbroken", options)).toBeNull();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ phase: "read" })
+    );
+  });
+
+  // 요청마다 만든 스토어를 Cookie 헤더로 채우는 테스트
+  it("should seed per-request Provider stores from Cookie headers", () => {
+    const options: PersistOptions<SettingsState> = {
+      name: "settings",
+      storage: createCookieStorage(),
+    };
+    const { Provider, useStoreContext } = createStoreContext<SettingsState>(
+      creator,
+      [persistMiddleware(options)]
+    );
+    const Theme = () =>
+      React.createElement(
+        "span",
+        null,
+        useStoreContext((s) => s.theme)
+      );
+
+    const render = (cookieHeader: string) =>
+      renderToString(
+        React.createElement(
+          Provider,
+          {
+            initialState:
+              (readPersistedCookie(
+                cookieHeader,
+                options
+              ) as Partial<SettingsState> | null) ?? undefined,
+          },
+          React.createElement(Theme)
+        )
+      );
+
+    // 요청 간에 상태가 공유되지 않음
+    expect(render(toCookie({ theme: "dark" }))).toContain("dark");
+    expect(render("session=abc")).toContain("light");
+  });
+});
+
+describe("keys", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  // setItem 호출을 기록하는 메모리 저장소
+  const createSpyStorage = () => {
+    const storage = createMemoryStorage();
+    jest.spyOn(storage, "setItem");
+    return storage;
+  };
+
+  // 마운트 후 저장 가능한 스토어 생성
+  const setup = (options: Partial<PersistOptions<SettingsState>>) => {
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      skipHydration: true,
+      ...options,
+    });
+    const Component = () => {
+      useStore((state) => state.theme);
+      return null;
+    };
+    act(() => root.render(React.createElement(Component)));
+    return useStore;
+  };
+
+  // 키별 항목 저장 테스트
+  it("should write mapped keys to their own storage entries", () => {
+    const storage = createSpyStorage();
+    const themeStorage = createSpyStorage();
+
+    setup({ storage, keys: { theme: themeStorage } });
+
+    expect(JSON.parse(storage.getItem("settings") as string).state).toEqual({
+      fontSize: 16,
+    });
+    expect(
+      JSON.parse(themeStorage.getItem("settings:theme") as string).state
+    ).toEqual({ theme: "light" });
+  });
+
+  // 바뀐 항목만 다시 저장하는지 테스트
+  it("should rewrite only the entries whose keys changed", () => {
+    const storage = createSpyStorage();
+    const themeStorage = createSpyStorage();
+    const useStore = setup({ storage, keys: { theme: themeStorage } });
+    (storage.setItem as jest.Mock).mockClear();
+    (themeStorage.setItem as jest.Mock).mockClear();
+
+    act(() => useStore.getState().setTheme("dark"));
+
+    expect(themeStorage.setItem).toHaveBeenCalledTimes(1);
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    act(() => useStore.setState({ fontSize: 20 }));
+
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(themeStorage.setItem).toHaveBeenCalledTimes(1);
+  });
+
+  // 여러 항목을 합쳐 복원하는지 테스트
+  it("should reassemble state from all entries on rehydrate", async () => {
+    const storage = createMemoryStorage();
+    const { storage: themeStorage } = createAsyncStorage({
+      "settings:theme": JSON.stringify({
+        state: { theme: "dark" },
+        version: 0,
+      }),
+    });
+    storage.setItem(
+      "settings",
+      JSON.stringify({ state: { fontSize: 20 }, version: 0 })
+    );
+
+    const useStore = createPersistStore<SettingsState>(creator, {
+      name: "settings",
+      storage,
+      keys: { theme: themeStorage },
+      skipHydration: true,
+    });
+    await (useStore as any).persist.rehydrate();
+
+    expect(useStore.getState().theme).toBe("dark");
+    expect(useStore.getState().fontSize).toBe(20);
+  });
+
+  // 저장된 데이터 삭제 테스트
+  it("should remove every entry on clearStorage", () => {
+    const storage = createMemoryStorage();
+    const themeStorage = createMemoryStorage();
+    const useStore = setup({ storage, keys: { theme: themeStorage } });
+
+    (useStore as any).persist.clearStorage();
+
+    expect(storage.getItem("settings")).toBeNull();
+    expect(themeStorage.getItem("settings:theme")).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { createStore } from "../src/core/createStore";
+import { produce, produceMiddleware } from "../src/middleware/produce";
+import { schemaMiddleware } from "../src/middleware/schema";
+
+interface Todo {
+  title: string;
+  done: boolean;
+}
+
+interface TodoState {
+  todos: Todo[];
+  meta: { owner: string; tags: string[] };
+  count: number;
+  toggle: (index: number) => void;
+  addTag: (tag: string) => void;
+  increase: () => void;
+}
+
+const creator = (set: any) => ({
+  todos: [
+    { title: "a", done: false },
+    { title: "b", done: false },
+  ],
+  meta: { owner: "me", tags: ["x"] },
+  count: 0,
+  toggle: (index: number) =>
+    set((draft: TodoState) => {
+      draft.todos[index].done = !draft.todos[index].done;
+    }),
+  addTag: (tag: string) =>
+    set((draft: TodoState) => {
+      draft.meta.tags.push(tag);
+    }),
+  // 기존 방식(부분 상태 반환)도 계속 동작해야 함
+  increase: () => set((state: TodoState) => ({ count: state.count + 1 })),
+});
+
+describe("produce", () => {
+  // 구조적 공유 테스트
+  it("should create a new state with structural sharing", () => {
+    const base = {
+      a: { value: 1 },
+      b: { value: 2 },
+      list: [{ id: 1 }, { id: 2 }],
+    };
+
+    const next = produce(base, (draft) => {
+      draft.a.value = 10;
+      draft.list[1].id = 3;
+    });
+
+    expect(next).toEqual({
+      a: { value: 10 },
+      b: { value: 2 },
+      list: [{ id: 1 }, { id: 3 }],
+    });
+    expect(base.a.value).toBe(1);
+    expect(next.b).toBe(base.b);
+    expect(next.list[0]).toBe(base.list[0]);
+    expect(next.list).not.toBe(base.list);
+    expect(Array.isArray(next.list)).toBe(true);
+  });
+
+  // 변경이 없으면 원본 반환
+  it("should return the base when nothing changed", () => {
+    const base = { a: { value: 1 } };
+    const next = produce(base, (draft) => {
+      draft.a.value = 1;
+    });
+    expect(next).toBe(base);
+  });
+
+  // 삭제 및 새 객체 할당 테스트
+  it("should support deleting keys and assigning objects containing drafts", () => {
+    const base: Record<string, any> = { a: { value: 1 }, b: { value: 2 } };
+    const next = produce(base, (draft) => {
+      delete draft.b;
+      draft.c = { nested: draft.a };
+    });
+
+    expect(next).toEqual({ a: { value: 1 }, c: { nested: { value: 1 } } });
+    expect(next.c.nested).toBe(base.a);
+    expect("b" in base).toBe(true);
+  });
+});
+
+describe("produceMiddleware", () => {
+  // 드래프트 변경 테스트
+  it("should apply draft mutations through set", () => {
+    const useStore = createStore<TodoState>(creator, [produceMiddleware()]);
+    const before = useStore.getState();
+
+    useStore.getState().toggle(1);
+    const after = useStore.getState();
+
+    expect(after.todos[1].done).toBe(true);
+    expect(before.todos[1].done).toBe(false);
+    expect(after.todos[0]).toBe(before.todos[0]);
+    expect(after.meta).toBe(before.meta);
+
+    useStore.getState().addTag("y");
+    expect(useStore.getState().meta.tags).toEqual(["x", "y"]);
+
+    useStore.getState().increase();
+    expect(useStore.getState().count).toBe(1);
+  });
+
+  // 스키마 미들웨어와의 조합 테스트
+  it("should compose with schemaMiddleware", () => {
+    const onError = jest.fn();
+    const useStore = createStore<TodoState>(creator, [
+      schemaMiddleware<TodoState>({
+        schema: {
+          todos: {
+            validate: (todos: Todo[]) => todos.every((todo) => !todo.done),
+          },
+        },
+        onError,
+        strict: true,
+      }),
+      produceMiddleware<TodoState>(),
+    ]);
+    const before = useStore.getState();
+
+    useStore.getState().toggle(0);
+
+    expect(onError).toHaveBeenCalled();
+    expect(useStore.getState()).toBe(before);
+    expect(before.todos[0].done).toBe(false);
+  });
+
+  // produceMiddleware 없이 값을 반환하지 않는 업데이트 함수 경고 테스트
+  it("should warn when an updater returns nothing without produceMiddleware", () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const useStore = createStore<TodoState>(creator, [], {
+      logger,
+      logLevel: "warn",
+    });
+
+    useStore.getState().addTag("y");
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ phase: "setState" })
+    );
+  });
+});
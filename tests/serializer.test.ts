@@ -0,0 +1,90 @@
+import {
+  createTaggedSerializer,
+  taggedSerializer,
+} from "../src/core/serializer";
+
+class Money {
+  constructor(public amount: number, public currency: string) {}
+
+  format() {
+    return `${this.amount} ${this.currency}`;
+  }
+}
+
+describe("taggedSerializer", () => {
+  // 기본 타입 왕복 테스트
+  it("should round-trip Date, Map, Set, BigInt and undefined", () => {
+    const value = {
+      createdAt: new Date("2024-01-02T03:04:05.000Z"),
+      tags: new Set(["a", "b"]),
+      scores: new Map<string, number>([["kim", 10]]),
+      big: BigInt("12345678901234567890"),
+      missing: undefined,
+      nested: [new Date(0), { infinite: Infinity }],
+    };
+
+    const restored = taggedSerializer.deserialize(
+      taggedSerializer.serialize(value)
+    );
+
+    expect(restored.createdAt).toBeInstanceOf(Date);
+    expect(restored.createdAt.toISOString()).toBe("2024-01-02T03:04:05.000Z");
+    expect(restored.tags).toEqual(new Set(["a", "b"]));
+    expect(restored.scores).toEqual(new Map([["kim", 10]]));
+    expect(restored.big).toBe(BigInt("12345678901234567890"));
+    expect("missing" in restored).toBe(true);
+    expect(restored.missing).toBeUndefined();
+    expect(restored.nested[0]).toEqual(new Date(0));
+    expect(restored.nested[1].infinite).toBe(Infinity);
+  });
+
+  // 태그 키와 겹치는 일반 객체 테스트
+  it("should keep plain objects that use the tag key", () => {
+    const value = { data: { __type: "Date", value: "not a date" } };
+
+    expect(
+      taggedSerializer.deserialize(taggedSerializer.serialize(value))
+    ).toEqual(value);
+  });
+
+  // 등록된 클래스 테스트
+  it("should restore registered class instances", () => {
+    const serializer = createTaggedSerializer({ classes: { Money } });
+
+    const restored = serializer.deserialize(
+      serializer.serialize({ price: new Money(1000, "KRW") })
+    );
+
+    expect(restored.price).toBeInstanceOf(Money);
+    expect(restored.price.format()).toBe("1000 KRW");
+  });
+
+  // 사용자 정의 변환 함수 테스트
+  it("should use custom toJSON/fromJSON for registered classes", () => {
+    const serializer = createTaggedSerializer({
+      classes: {
+        Money: {
+          type: Money,
+          toJSON: (money: Money) => `${money.amount}:${money.currency}`,
+          fromJSON: (data: string) => {
+            const [amount, currency] = data.split(":");
+            return new Money(Number(amount), currency);
+          },
+        },
+      },
+    });
+
+    const text = serializer.serialize(new Money(5, "USD"));
+    expect(JSON.parse(text).value).toBe("5:USD");
+    expect(serializer.deserialize(text)).toEqual(new Money(5, "USD"));
+  });
+
+  // 등록되지 않은 클래스 테스트
+  it("should throw for unknown class names", () => {
+    const text = createTaggedSerializer({ classes: { Money } }).serialize(
+      new Money(1, "KRW")
+    );
+
+    expect(() => taggedSerializer.deserialize(text)).toThrow("Money");
+  });
+});
@@ -4,6 +4,9 @@
  * 타입 문제로 인해 실제 미들웨어 호출 대신 목(mock) 기반으로 테스트합니다.
  */
 
+import { createStore } from "../src/core/createStore";
+import { timeTravelMiddleware } from "../src/middleware/timeTravel";
+
 interface TimeTravelTestState {
   count: number;
   text: string;
@@ -328,3 +331,27 @@ describe("timeTravel functionality", () => {
     expect(timeTravelStore.getState()).toEqual({ count: 2, text: "initial" });
   });
 });
+
+describe("timeTravelMiddleware lifecycle", () => {
+  // 스토어 해제 시 히스토리 정리 테스트
+  it("should clear history buffer on destroy", () => {
+    const useStore = createStore<
+      TimeTravelTestState & { increase: () => void }
+    >(
+      (set) => ({
+        count: 0,
+        text: "initial",
+        increase: () => set((state) => ({ count: state.count + 1 })),
+      }),
+      [timeTravelMiddleware()]
+    );
+    const timeTravel = (useStore.getState() as any)._timeTravel;
+
+    useStore.getState().increase();
+    useStore.getState().increase();
+    expect(timeTravel.getHistoryLength()).toBe(2);
+
+    useStore.destroy();
+    expect(timeTravel.getHistoryLength()).toBe(0);
+  });
+});
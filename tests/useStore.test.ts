@@ -0,0 +1,97 @@
+import React from "react";
+import { createRoot, Root } from "react-dom/client";
+import { act } from "react-dom/test-utils";
+import { createStore } from "../src/core/createStore";
+import { shallow } from "../src/core/shallow";
+import { useShallow } from "../src/core/useShallow";
+
+interface TestState {
+  a: number;
+  b: number;
+  other: string;
+}
+
+// React 18 act 환경 설정
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("shallow", () => {
+  it("should compare top-level values of objects and arrays", () => {
+    expect(shallow({ a: 1, b: "x" }, { a: 1, b: "x" })).toBe(true);
+    expect(shallow({ a: 1 }, { a: 2 })).toBe(false);
+    expect(shallow({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(shallow([1, 2], [1, 2])).toBe(true);
+    expect(shallow([1, 2], { 0: 1, 1: 2 })).toBe(false);
+    expect(shallow({ nested: {} }, { nested: {} })).toBe(false);
+  });
+
+  it("should compare Map and Set entries", () => {
+    expect(shallow(new Map([["a", 1]]), new Map([["a", 1]]))).toBe(true);
+    expect(shallow(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+    expect(shallow(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(shallow(new Set([1]), new Set([2]))).toBe(false);
+  });
+});
+
+describe("useStore equality", () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  const createTestStore = () =>
+    createStore<TestState>(() => ({ a: 1, b: 2, other: "x" }));
+
+  // equalityFn 인자 테스트
+  it("should not re-render when the selection is shallow equal", () => {
+    const useTestStore = createTestStore();
+    const renders = jest.fn();
+
+    const Component = () => {
+      const { a, b } = useTestStore(
+        (state) => ({ a: state.a, b: state.b }),
+        shallow
+      );
+      renders(a + b);
+      return null;
+    };
+
+    act(() => root.render(React.createElement(Component)));
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => useTestStore.setState({ other: "y" }));
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => useTestStore.setState({ a: 10 }));
+    expect(renders).toHaveBeenCalledTimes(2);
+    expect(renders).toHaveBeenLastCalledWith(12);
+  });
+
+  // useShallow 헬퍼 테스트
+  it("should keep multi-field picks stable with useShallow", () => {
+    const useTestStore = createTestStore();
+    const renders = jest.fn();
+
+    const Component = () => {
+      const values = useTestStore(useShallow((state) => [state.a, state.b]));
+      renders(values);
+      return null;
+    };
+
+    act(() => root.render(React.createElement(Component)));
+    act(() => useTestStore.setState({ other: "y" }));
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => useTestStore.setState({ b: 5 }));
+    expect(renders).toHaveBeenCalledTimes(2);
+    expect(renders).toHaveBeenLastCalledWith([1, 5]);
+  });
+});
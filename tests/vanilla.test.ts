@@ -0,0 +1,221 @@
+import { createVanillaStore } from "../src/core/vanilla";
+import { createStore } from "../src/core/createStore";
+
+interface TestState {
+  count: number;
+  increase: () => void;
+}
+
+describe("createVanillaStore", () => {
+  // 순수 스토어 API 테스트
+  it("should create a store api without a hook", () => {
+    const store = createVanillaStore<TestState>((set, get) => ({
+      count: 0,
+      increase: () => set({ count: get!().count + 1 }),
+    }));
+
+    expect(typeof store).toBe("object");
+    store.getState().increase();
+    expect(store.getState().count).toBe(1);
+  });
+
+  // 미들웨어 파이프라인 테스트
+  it("should apply middleware in the same order as createStore", () => {
+    const calls: string[] = [];
+    const logger = (name: string) => (creator: any) => (set: any, get: any) =>
+      creator((partial: any) => {
+        calls.push(name);
+        set(partial);
+      }, get);
+
+    const store = createVanillaStore<TestState>(
+      (set) => ({
+        count: 0,
+        increase: () => set((state) => ({ count: state.count + 1 })),
+      }),
+      [logger("outer"), logger("inner")]
+    );
+
+    store.getState().increase();
+    expect(calls).toEqual(["inner", "outer"]);
+    expect(store.getState().count).toBe(1);
+  });
+
+  // selector 구독 테스트
+  it("should notify selector listeners only when the slice changes", () => {
+    const store = createVanillaStore(() => ({ count: 0, text: "a" }));
+
+    const listener = jest.fn();
+    store.subscribe((state) => state.count, listener);
+
+    store.setState({ text: "b" });
+    expect(listener).not.toHaveBeenCalled();
+
+    store.setState({ count: 1 });
+    expect(listener).toHaveBeenCalledWith(1, 0, { type: "anonymous" });
+
+    store.setState({ count: 2 });
+    expect(listener).toHaveBeenLastCalledWith(2, 1, { type: "anonymous" });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  // selector 구독 옵션 테스트
+  it("should support equalityFn and fireImmediately options", () => {
+    const store = createVanillaStore(() => ({ a: 1, b: 2, text: "a" }));
+
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(
+      (state) => ({ a: state.a, b: state.b }),
+      listener,
+      {
+        equalityFn: (prev, next) => prev.a === next.a && prev.b === next.b,
+        fireImmediately: true,
+      }
+    );
+
+    expect(listener).toHaveBeenCalledWith({ a: 1, b: 2 }, { a: 1, b: 2 });
+
+    store.setState({ text: "b" });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    store.setState({ a: 3 });
+    expect(listener).toHaveBeenLastCalledWith(
+      { a: 3, b: 2 },
+      { a: 1, b: 2 },
+      { type: "anonymous" }
+    );
+
+    unsubscribe();
+    store.setState({ b: 4 });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  // 해제 테스트
+  it("should remove all listeners on destroy", () => {
+    const store = createVanillaStore<TestState>(() => ({
+      count: 0,
+      increase: () => {},
+    }));
+
+    const listener = jest.fn();
+    store.subscribe(listener);
+    store.destroy();
+
+    store.setState({ count: 1 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  // 미들웨어 정리 함수 테스트
+  it("should run middleware disposers and ignore setState after destroy", () => {
+    const disposer = jest.fn();
+    const withDisposer = (creator: any) => (set: any, get: any, api: any) => {
+      api.onDestroy(disposer);
+      return creator(set, get, api);
+    };
+
+    const store = createVanillaStore<TestState>(
+      () => ({ count: 0, increase: () => {} }),
+      [withDisposer]
+    );
+
+    store.destroy();
+    store.destroy();
+    expect(disposer).toHaveBeenCalledTimes(1);
+
+    store.setState({ count: 1 });
+    expect(store.getState().count).toBe(0);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("해제된 스토어")
+    );
+  });
+
+  // 마운트 알림 테스트
+  it("should run mount listeners once and immediately after mount", () => {
+    const store = createVanillaStore<TestState>(() => ({
+      count: 0,
+      increase: () => {},
+    }));
+    const listener = jest.fn();
+    const lateListener = jest.fn();
+
+    store.onMount(listener);
+    store.mount();
+    store.mount();
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // 이미 마운트된 스토어는 바로 실행
+    store.onMount(lateListener);
+    expect(lateListener).toHaveBeenCalledTimes(1);
+  });
+
+  // 초기화 후 실행 함수 테스트
+  it("should run init listeners after the initial state is recorded", () => {
+    const initMiddleware = (creator: any) => (set: any, get: any, api: any) => {
+      api.onInit(() => set({ count: 5 }));
+      return creator(set, get, api);
+    };
+    const store = createVanillaStore<TestState>(
+      () => ({ count: 0, increase: () => {} }),
+      [initMiddleware]
+    );
+
+    expect(store.getState().count).toBe(5);
+    expect(store.getInitialState().count).toBe(0);
+
+    // 이미 초기화된 스토어는 바로 실행
+    const lateListener = jest.fn();
+    store.onInit(lateListener);
+    expect(lateListener).toHaveBeenCalledTimes(1);
+  });
+
+  // 스토어 생성 중 미들웨어에서 selector로 구독하는 경우 테스트
+  it("should support selector subscriptions made while the store is created", () => {
+    const sliceListener = jest.fn();
+    const subscribeMiddleware =
+      (creator: any) => (set: any, get: any, api: any) => {
+        api.subscribe((state: TestState) => state.count, sliceListener, {
+          fireImmediately: true,
+        });
+        return { ...creator(set, get, api), _subscribed: true };
+      };
+    const store = createVanillaStore<TestState & { _subscribed?: boolean }>(
+      (set, get) => ({
+        count: 0,
+        increase: () => set({ count: get!().count + 1 }),
+      }),
+      [subscribeMiddleware]
+    );
+
+    // 미들웨어가 누락되지 않고, 초기화 후 선택된 값으로 실행
+    expect(store.getState()._subscribed).toBe(true);
+    expect(sliceListener).toHaveBeenCalledWith(0, 0);
+
+    store.getState().increase();
+    expect(sliceListener).toHaveBeenLastCalledWith(1, 0, expect.anything());
+  });
+
+  // vanilla 진입점이 React를 불러오지 않는지 테스트
+  it("should load the vanilla entry without react", () => {
+    jest.isolateModules(() => {
+      jest.doMock("react", () => {
+        throw new Error("react should not be loaded");
+      });
+      const entry = require("../src/vanilla");
+      expect(typeof entry.createVanillaStore).toBe("function");
+      expect(typeof entry.persistMiddleware).toBe("function");
+      jest.dontMock("react");
+    });
+  });
+
+  // createStore가 순수 스토어 위에 구성되는지 테스트
+  it("should expose the vanilla api on the createStore hook", () => {
+    const useStore = createStore<TestState>((set) => ({
+      count: 0,
+      increase: () => set((state) => ({ count: state.count + 1 })),
+    }));
+
+    expect(typeof useStore.destroy).toBe("function");
+    useStore.getState().increase();
+    expect(useStore.getState().count).toBe(1);
+  });
+});